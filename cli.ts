@@ -0,0 +1,319 @@
+#!/usr/bin/env node
+import chalk from "chalk";
+import path from "path";
+import { parseArgs } from "util";
+import { generateTranslations, Logger } from "./index.js";
+import { ConfigError, createProviderFromConfig, createReviewOptionsFromConfig, LocalizationConfig, loadConfig } from "./src/config.js";
+import { CheckResult, CheckSeverity, checkTranslations, formatJunitReport } from "./src/check.js";
+import { writeFileAtomic } from "./src/files.js";
+import { readCatalogFile } from "./src/formats/index.js";
+import { createKeyMatcher, createLockStore, LOCKS_FILE } from "./src/locks.js";
+import { getTranslationStatus, TranslationStatus } from "./src/status.js";
+
+const EXIT_OK = 0;
+// Translation errors or failed checks
+const EXIT_FAILURE = 1;
+// Invalid arguments or config
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: ai-localization <command> [options]
+
+Commands:
+  translate             Translate new and changed keys
+  plan                  Show what would be translated without calling the API
+  status                Show the translation progress of every output file
+  check                 Lint the output files without calling the API: missing, extra, empty,
+                        untranslated and stale keys, placeholders and invalid files
+  lock <file> <keys..>  Mark reviewed keys of an output file, they are never translated again
+  unlock <file> <keys..>
+                        Allow the keys to be translated again
+
+Options:
+  -c, --config <path>   Config file (default: ai-localization.config.{ts,mts,mjs,js,json})
+      --recreate        Translate all keys, not only the changed ones
+      --only <file>     Only process this output file, can be repeated or comma separated
+      --chunk-size <n>  Number of keys per API call
+      --max-tokens <n>  Stop sending requests before the run uses more tokens
+      --max-cost <usd>  Stop sending requests before the run costs more (needs pricing in the config)
+      --base <ref>      Git ref the source file is compared with (default: HEAD)
+      --json            Print the plan (plan) or the issues (check) as JSON
+      --junit <path>    Write the issues as JUnit XML (check only)
+      --fail-on <level> Lowest severity that fails check: error (default), warning, info or none
+  -h, --help            Show this help
+
+Environment:
+  OPENAI_API_KEY            API key, it is never read from the config file
+  OPENAI_API_ASSISTANT_ID   Assistant ID when the config does not set one`;
+
+const COMMANDS = ["translate", "plan", "status", "check", "lock", "unlock"];
+// Commands that take an output file and keys (`*` matches any part of a key)
+const KEY_COMMANDS = ["lock", "unlock"];
+
+const FAIL_ON_LEVELS = ["error", "warning", "info", "none"];
+
+class UsageError extends Error {}
+
+const parseCliArgs = (args: string[]) => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: "string", short: "c" },
+        recreate: { type: "boolean" },
+        only: { type: "string", multiple: true },
+        "chunk-size": { type: "string" },
+        "max-tokens": { type: "string" },
+        "max-cost": { type: "string" },
+        base: { type: "string" },
+        json: { type: "boolean" },
+        junit: { type: "string" },
+        "fail-on": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+  if (command !== undefined && !COMMANDS.includes(command)) {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+  if (KEY_COMMANDS.includes(command)) {
+    if (rest.length < 2) {
+      throw new UsageError(`${command} expects an output file and at least one key`);
+    }
+  } else if (rest.length > 0) {
+    throw new UsageError(`Unexpected arguments: ${rest.join(" ")}`);
+  }
+
+  const parsePositive = (flag: string, integer: boolean) => {
+    const value = values[flag as "chunk-size" | "max-tokens" | "max-cost"];
+    if (value === undefined) {
+      return undefined;
+    }
+    const number = Number(value);
+    if (!(number > 0) || (integer && !Number.isInteger(number))) {
+      throw new UsageError(`--${flag} must be a positive ${integer ? "integer" : "number"}, got "${value}"`);
+    }
+    return number;
+  };
+
+  const failOn = values["fail-on"];
+  if (failOn !== undefined && !FAIL_ON_LEVELS.includes(failOn)) {
+    throw new UsageError(`--fail-on must be one of ${FAIL_ON_LEVELS.join(", ")}, got "${failOn}"`);
+  }
+
+  return {
+    command,
+    file: rest[0] as string | undefined,
+    keys: rest.slice(1),
+    config: values.config,
+    recreate: values.recreate,
+    only: values.only?.flatMap((files) => files.split(",")).map((file) => file.trim()).filter(Boolean),
+    chunkSize: parsePositive("chunk-size", true),
+    maxTokens: parsePositive("max-tokens", true),
+    maxCost: parsePositive("max-cost", false),
+    baseRef: values.base,
+    json: values.json ?? false,
+    junit: values.junit,
+    failOn: failOn as CheckSeverity | "none" | undefined,
+    help: values.help ?? false,
+  };
+};
+
+const selectOutputFiles = (outputFiles: string[], only?: string[]) => {
+  if (!only || only.length === 0) {
+    return outputFiles;
+  }
+  const unknown = only.filter((file) => !outputFiles.includes(file));
+  if (unknown.length > 0) {
+    throw new UsageError(`--only ${unknown.join(", ")} is not in outputFiles (${outputFiles.join(", ")})`);
+  }
+  return outputFiles.filter((file) => only.includes(file));
+};
+
+// Keeps stdout clean for JSON output
+const stderrLogger: Logger = {
+  info: (message) => console.error(message),
+  warn: (message) => console.error(message),
+  error: (message) => console.error(message),
+};
+
+const printStatus = (status: TranslationStatus) => {
+  console.log(chalk.cyan(`📊 Source file contains ${chalk.bold(status.sourceKeys.toString())} keys`));
+  status.files.forEach(({ file, exists, expected, translated, missing, extra, stale }) => {
+    if (!exists) {
+      console.log(chalk.red(`   ❌ ${chalk.bold(file)}: file does not exist`));
+      return;
+    }
+    const details = [`${translated}/${expected} translated`];
+    if (missing.length > 0) details.push(`${missing.length} missing`);
+    if (stale.length > 0) details.push(`${stale.length} stale`);
+    if (extra.length > 0) details.push(`${extra.length} not in source`);
+    const incomplete = missing.length > 0 || stale.length > 0;
+    const color = incomplete ? chalk.yellow : chalk.green;
+    console.log(color(`   ${incomplete ? "⚠️" : "✅"} ${chalk.bold(file)}: ${details.join(", ")}`));
+    // The source text of these keys changed since they were translated
+    stale.forEach((key) => console.log(chalk.gray(`      ~ ${key}`)));
+  });
+};
+
+const SEVERITY_ICONS: Record<CheckSeverity, string> = { error: "✖", warning: "⚠", info: "ℹ" };
+const SEVERITY_COLORS: Record<CheckSeverity, typeof chalk> = { error: chalk.red, warning: chalk.yellow, info: chalk.gray };
+
+const describeCounts = ({ error, warning, info }: CheckResult["counts"]) =>
+  [`${error} ${error === 1 ? "error" : "errors"}`, `${warning} ${warning === 1 ? "warning" : "warnings"}`, ...(info > 0 ? [`${info} info`] : [])].join(", ");
+
+const printCheck = (result: CheckResult) => {
+  console.log(chalk.cyan(`📊 Source file contains ${chalk.bold(result.sourceKeys.toString())} keys`));
+  const groups = [
+    ...(result.sourceIssues.length > 0 ? [{ file: result.sourceIssues[0].file, issues: result.sourceIssues }] : []),
+    ...result.files,
+  ];
+  groups.forEach(({ file, issues }) => {
+    if (issues.length === 0) {
+      console.log(chalk.green(`   ✅ ${chalk.bold(file)}: no issues`));
+      return;
+    }
+    const counts = {
+      error: issues.filter((issue) => issue.severity === "error").length,
+      warning: issues.filter((issue) => issue.severity === "warning").length,
+      info: issues.filter((issue) => issue.severity === "info").length,
+    };
+    const color = counts.error > 0 ? chalk.red : chalk.yellow;
+    console.log(color(`   ${counts.error > 0 ? "❌" : "⚠️"} ${chalk.bold(file)}: ${describeCounts(counts)}`));
+    issues.forEach(({ severity, rule, key, message }) => {
+      console.log(SEVERITY_COLORS[severity](`      ${SEVERITY_ICONS[severity]} ${rule}${key !== undefined ? ` ${chalk.bold(key)}` : ""}: ${message}`));
+    });
+  });
+
+  const failOn = result.failOn === "none" ? "never fails" : `fails on ${result.failOn}`;
+  console.log(
+    result.passed
+      ? chalk.green(`\n✅ Check passed: ${describeCounts(result.counts)} (${failOn})`)
+      : chalk.red(`\n❌ Check failed: ${describeCounts(result.counts)} (${failOn})`)
+  );
+};
+
+const updateLocks = (config: LocalizationConfig, command: string, file: string, patterns: string[]) => {
+  if (!config.outputFiles.includes(file)) {
+    throw new UsageError(`${file} is not in outputFiles (${config.outputFiles.join(", ")})`);
+  }
+  const store = createLockStore(config.locksFile ?? path.join(config.outputDirectory, LOCKS_FILE));
+  const matches = createKeyMatcher(patterns);
+
+  if (command === "lock") {
+    // The current source text is stored so that later changes of it can be reported
+    const source = readCatalogFile(path.join(config.sourceDirectory, config.sourceFile), config.sourceFile, {
+      keySeparator: config.keySeparator,
+      format: config.format,
+      isSource: true,
+    }).entries;
+    const keys = Object.keys(source).filter(matches);
+    if (keys.length === 0) {
+      throw new UsageError(`No source keys match ${patterns.join(", ")}`);
+    }
+    store.lock(file, Object.fromEntries(keys.map((key) => [key, source[key]])));
+    store.save();
+    console.log(chalk.green(`🔒 Locked ${keys.length} keys in ${chalk.bold(file)}`));
+    keys.forEach((key) => console.log(chalk.gray(`   - ${key}`)));
+    return;
+  }
+
+  const keys = Object.keys(store.lockedKeys(file)).filter(matches);
+  if (keys.length === 0) {
+    console.log(chalk.yellow(`⚠️ No locked keys in ${chalk.bold(file)} match ${patterns.join(", ")}`));
+    return;
+  }
+  store.unlock(file, keys);
+  store.save();
+  console.log(chalk.green(`🔓 Unlocked ${keys.length} keys in ${chalk.bold(file)}`));
+  keys.forEach((key) => console.log(chalk.gray(`   - ${key}`)));
+};
+
+const main = async (args: string[]): Promise<number> => {
+  const options = parseCliArgs(args);
+  if (options.help || !options.command) {
+    console.log(USAGE);
+    return options.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const config = await loadConfig(options.config);
+  if (options.file) {
+    updateLocks(config, options.command, options.file, options.keys);
+    return EXIT_OK;
+  }
+  const outputFiles = selectOutputFiles(config.outputFiles, options.only);
+
+  const translationOptions = {
+    ...config,
+    extraContextByFilename: config.extraContextByFilename ?? {},
+    outputFiles,
+    recreate: options.recreate ?? config.recreate,
+    chunkSize: options.chunkSize ?? config.chunkSize,
+    maxTokens: options.maxTokens ?? config.maxTokens,
+    maxCost: options.maxCost ?? config.maxCost,
+    baseRef: options.baseRef ?? config.baseRef,
+  };
+
+  if (options.command === "translate") {
+    const result = await generateTranslations({
+      ...translationOptions,
+      provider: createProviderFromConfig(config),
+      review: createReviewOptionsFromConfig(config),
+    });
+    return result.success ? EXIT_OK : EXIT_FAILURE;
+  }
+
+  if (options.command === "plan") {
+    // The provider is never called, so no API key is needed
+    const result = await generateTranslations({
+      ...translationOptions,
+      provider: undefined,
+      review: undefined,
+      dryRun: true,
+      logger: options.json ? stderrLogger : undefined,
+    });
+    if (options.json) {
+      console.log(JSON.stringify(result.plan, null, 2));
+    }
+    return result.success ? EXIT_OK : EXIT_FAILURE;
+  }
+
+  if (options.command === "check") {
+    const result = checkTranslations({
+      ...config,
+      ...config.check,
+      outputFiles,
+      failOn: options.failOn ?? config.check?.failOn,
+    });
+    if (options.junit) {
+      writeFileAtomic(path.resolve(options.junit), formatJunitReport(result));
+    }
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printCheck(result);
+    }
+    return result.passed ? EXIT_OK : EXIT_FAILURE;
+  }
+
+  printStatus(getTranslationStatus({ ...config, outputFiles }));
+  return EXIT_OK;
+};
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: any) => {
+    console.error(chalk.red(`❌ ${error.message}`));
+    if (error instanceof UsageError) {
+      console.error(`\n${USAGE}`);
+    }
+    process.exitCode = error instanceof UsageError || error instanceof ConfigError ? EXIT_USAGE : EXIT_FAILURE;
+  });
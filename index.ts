@@ -1,177 +1,195 @@
 import { promiseAllLimited } from "@satankebab/promise-all-limited";
-import { execSync } from "child_process";
 import fs from "fs";
-import { OpenAI } from "openai";
 import path from "path";
 import chalk from "chalk";
+import {
+  createAssistantProvider,
+  describeRetryReason,
+  InvalidResponseError,
+  RateLimitWait,
+  TokenUsage,
+  TranslationProvider,
+  TranslationRequest,
+  TranslationResponse,
+} from "./src/providers.js";
+import { addUsage, BudgetExceededError, createBudget, createUsageReport, emptyUsage, Pricing, UsageReport } from "./src/budget.js";
+import { consoleLogger, Logger, silentLogger, TranslationEvent } from "./src/events.js";
+import { FormatAdapter, FormatName, getFormatAdapter, LocaleCatalog, sortBySourceOrder } from "./src/formats/index.js";
+import { localeFromFilename } from "./src/locale.js";
+import { addPluralContexts, addPluralVariants } from "./src/plurals.js";
+import { checkGlossary, formatGlossary, GlossaryEntry } from "./src/glossary.js";
+import { checkMaxLength, contextFileName, formatKeyContexts, KeyContext, readContextFile, resolveKeyContexts } from "./src/context.js";
+import { createTranslationMemory, TRANSLATION_MEMORY_FILE, TranslationMemory } from "./src/memory.js";
+import { createTranslationJournal, JOURNAL_FILE } from "./src/journal.js";
+import { writeFileAtomic } from "./src/files.js";
+import { reconcileKeys } from "./src/reconcile.js";
+import { compareEntries, readFileAtRef, SourceChanges } from "./src/git.js";
+import { createKeyMatcher, createLockStore, lockedKeyPatterns, LOCKS_FILE } from "./src/locks.js";
+import { createTranslationState, STATE_FILE, TranslationState } from "./src/state.js";
+import { createRequestScheduler } from "./src/scheduler.js";
+import {
+  createBackTranslationPrompt,
+  createQaReport,
+  createReviewPrompt,
+  formatReviewFeedback,
+  KeyReview,
+  parseKeyReview,
+  QA_REPORT_DIRECTORY,
+  QaReport,
+  QaReportEntry,
+  qaReportFileName,
+  ReviewOptions,
+} from "./src/review.js";
+import { createTranslationPlan, estimateTokens, FilePlan, TranslationPlan } from "./src/plan.js";
+import { formatValidationProblems, validateTranslations } from "./src/validation.js";
+
+export {
+  createAssistantProvider,
+  createChatCompletionsProvider,
+  createMockProvider,
+  createOpenAiCompatibleProvider,
+  InvalidResponseError,
+} from "./src/providers.js";
+export type {
+  RateLimitWait,
+  ResponseFormat,
+  RetryReason,
+  TokenUsage,
+  TranslationProvider,
+  TranslationRequest,
+  TranslationResponse,
+} from "./src/providers.js";
+export { BudgetExceededError, costOf } from "./src/budget.js";
+export type { Pricing, UsageReport } from "./src/budget.js";
+export { flattenObject, unflattenObject } from "./src/flatten.js";
+export type { NestedTranslations } from "./src/flatten.js";
+export { formatAdapters, getFormatAdapter, readCatalogFile } from "./src/formats/index.js";
+export type {
+  EntryMetadata,
+  FormatAdapter,
+  FormatName,
+  LocaleCatalog,
+  ParseOptions,
+  SerializeOptions,
+} from "./src/formats/index.js";
+export { localeFromFilename } from "./src/locale.js";
+export { addPluralVariants, pluralCategories } from "./src/plurals.js";
+export { validateTranslation, validateTranslations } from "./src/validation.js";
+export { reconcileKeys } from "./src/reconcile.js";
+export type { ReconciledResponse } from "./src/reconcile.js";
+export { createTranslationMemory } from "./src/memory.js";
+export { createTranslationJournal } from "./src/journal.js";
+export type { TranslationJournal } from "./src/journal.js";
+export { createJsonStore, writeFileAtomic } from "./src/files.js";
+export type { JsonStore } from "./src/files.js";
+export { checkGlossary, findGlossaryEntries, formatGlossary } from "./src/glossary.js";
+export type { GlossaryEntry } from "./src/glossary.js";
+export { checkMaxLength, formatKeyContexts, resolveKeyContexts } from "./src/context.js";
+export type { KeyContext } from "./src/context.js";
+export type { TranslationMemory } from "./src/memory.js";
+export { createTranslationState, hashSource } from "./src/state.js";
+export type { TranslationState } from "./src/state.js";
+export { parseKeyReview, REVIEW_ISSUES } from "./src/review.js";
+export type { KeyReview, QaReport, QaReportEntry, ReviewIssue, ReviewOptions } from "./src/review.js";
+export { ConfigError, createProviderFromConfig, createReviewOptionsFromConfig, defineConfig, loadConfig } from "./src/config.js";
+export type { LocalizationConfig, ProviderConfig } from "./src/config.js";
+export { getTranslationStatus } from "./src/status.js";
+export { checkTranslations, DEFAULT_CHECK_RULES, formatJunitReport } from "./src/check.js";
+export type { CheckIssue, CheckOptions, CheckResult, CheckRule, CheckSeverity, FileCheck } from "./src/check.js";
+export type { FileStatus, TranslationStatus, TranslationStatusOptions } from "./src/status.js";
+export { estimateTokens } from "./src/plan.js";
+export { compareEntries, readFileAtRef } from "./src/git.js";
+export { createKeyMatcher, createLockStore } from "./src/locks.js";
+export type { LockStore } from "./src/locks.js";
+export type { SourceChanges } from "./src/git.js";
+export { consoleLogger, silentLogger } from "./src/events.js";
+export type { Logger, TranslationEvent } from "./src/events.js";
+export type { FilePlan, TranslationPlan } from "./src/plan.js";
 
 const CHUNK_SIZE = 3000;
+const MAX_CHUNK_TOKENS = 4000;
 const PARALLEL_LIMIT = 10;
+const VALIDATION_RETRIES = 1;
+const RECONCILIATION_ROUNDS = 2;
+const REVIEW_THRESHOLD = 70;
+const REVIEW_RETRIES = 1;
 
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Helper function to chunk the object into smaller pieces of at most `chunkSize` keys and
+// `maxTokens` estimated tokens, a single entry over the token limit gets a chunk of its own
+const chunkObject = <T extends Record<string, unknown>>(obj: T, chunkSize: number, maxTokens = Infinity): Partial<T>[] => {
+  const chunks: Partial<T>[] = [];
+  let current: [string, unknown][] = [];
+  let currentTokens = 0;
 
-const extractWaitTimeFromError = (errorMessage: string): number | null => {
-  // Try to extract wait time from messages like "Please try again in 1.362s"
-  const match = errorMessage.match(/try again in ([\d.]+)s/i);
-  if (match && match[1]) {
-    return parseFloat(match[1]);
+  Object.entries(obj).forEach((entry) => {
+    const tokens = estimateTokens(JSON.stringify(entry[0]) + JSON.stringify(entry[1])) + 1;
+    if (current.length > 0 && (current.length >= chunkSize || currentTokens + tokens > maxTokens)) {
+      chunks.push(Object.fromEntries(current) as Partial<T>);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(entry);
+    currentTokens += tokens;
+  });
+  if (current.length > 0) {
+    chunks.push(Object.fromEntries(current) as Partial<T>);
   }
-  return null;
-};
-
-const callTsAiAssistant = async ({ content, assistant_id, client, maxRetries = 5 }: {
-  content: string;
-  assistant_id: string;
-  client: OpenAI;
-  maxRetries?: number;
-}) => {
-  let retryCount = 0;
-  
-  while (retryCount <= maxRetries) {
-    try {
-      // Creates a thread and waits for the result
-      const run = await client.beta.threads.createAndRunPoll({
-        assistant_id,
-        thread: {
-          messages: [{ role: "user", content }],
-        },
-      });
-
-      // 1) Never assume the run completed successfully
-      if (run.status !== "completed") {
-        // Pull full details (optional but helpful)
-        const full = await client.beta.threads.runs.retrieve(run.thread_id, run.id);
 
-        // Run steps are often the fastest way to see what happened
-        const steps = await client.beta.threads.runs.steps.list(run.thread_id, run.id);
-
-        const errorMessage = `Run not completed. status=${full.status} ` +
-          `last_error=${JSON.stringify(full.last_error)} ` +
-          `incomplete_details=${JSON.stringify(full.incomplete_details)} ` +
-          `steps_count=${steps.data?.length ?? 0}`;
-
-        // Check if this is a rate limit error
-        if (full.last_error?.code === "rate_limit_exceeded" && retryCount < maxRetries) {
-          const message = full.last_error.message || "";
-          const waitTime = extractWaitTimeFromError(message);
-          
-          // Calculate wait time: use extracted time + buffer, or exponential backoff
-          const baseWait = waitTime ? waitTime * 1000 : Math.pow(2, retryCount) * 1000;
-          const bufferTime = 500; // Add 500ms buffer
-          const totalWaitMs = baseWait + bufferTime;
-          
-          retryCount++;
-          console.log(chalk.yellow(`⏳ Rate limit exceeded. Waiting ${(totalWaitMs / 1000).toFixed(1)}s before retry (attempt ${retryCount}/${maxRetries})...`));
-          console.log(chalk.gray(`   ${message}`));
-          
-          await sleep(totalWaitMs);
-          continue; // Retry the request
-        }
-
-        throw new Error(errorMessage);
-      }
-
-      // 2) List messages produced by THIS run, then pick the assistant message
-      const msgs = await client.beta.threads.messages.list(run.thread_id, {
-        run_id: run.id,
-        order: "desc",
-        limit: 20,
-      });
-
-      const assistantMsg = msgs.data.find(m => m.role === "assistant");
-      if (!assistantMsg) {
-        throw new Error(`Run completed but no assistant message found for run_id=${run.id}`);
-      }
-
-      // 3) Extract text content safely
-      const textParts = assistantMsg.content
-        .filter(p => p.type === "text")
-        .map(p => p.type === "text" ? (p.text?.value ?? "") : "");
+  return chunks;
+}
 
-      return textParts.join("\n").trim();
-    } catch (error: any) {
-      // Check if this is a rate limit error from the API call itself (not from run status)
-      if (error.message?.includes("rate_limit") && retryCount < maxRetries) {
-        const waitTime = extractWaitTimeFromError(error.message);
-        const baseWait = waitTime ? waitTime * 1000 : Math.pow(2, retryCount) * 1000;
-        const bufferTime = 500;
-        const totalWaitMs = baseWait + bufferTime;
-        
-        retryCount++;
-        console.log(chalk.yellow(`⏳ Rate limit exceeded. Waiting ${(totalWaitMs / 1000).toFixed(1)}s before retry (attempt ${retryCount}/${maxRetries})...`));
-        console.log(chalk.gray(`   ${error.message}`));
-        
-        await sleep(totalWaitMs);
-        continue; // Retry the request
-      }
-      
-      // If not a rate limit error or max retries exceeded, throw the error
-      throw error;
-    }
+// Without a custom provider the Assistants API is used, as in previous versions
+const createDefaultProvider = ({ openAiApiKey, assistantId }: {
+  openAiApiKey?: string;
+  assistantId?: string;
+}) => {
+  if (!openAiApiKey || !assistantId) {
+    throw new Error("Either `provider` or both `openAiApiKey` and `assistantId` must be set");
   }
-  
-  throw new Error(`Max retries (${maxRetries}) exceeded due to rate limiting`);
+  return createAssistantProvider({ apiKey: openAiApiKey, assistantId });
 };
 
-const parseGitDiff = (diffOutput: string) => {
-  const changes = {};
-  const lines = diffOutput.split("\n");
-
-  let contentStarted = false;
+// A dry run never calls the API, so it works without credentials
+const dryRunProvider: TranslationProvider = {
+  name: "none (dry run)",
+  translate: async () => {
+    throw new Error("The API must not be called in a dry run");
+  },
+};
 
-  for (const line of lines) {
-    if (line.startsWith("@@")) {
-      contentStarted = true;
-      continue;
+const printPlan = (plan: TranslationPlan, logger: Logger) => {
+  logger.info(chalk.cyan('📋 Translation plan (dry run, nothing was sent to the API):'));
+  if (plan.sourceChanges) {
+    const { changed, added, removed } = plan.sourceChanges;
+    logger.info(chalk.gray(`   Source: ${changed.length} changed, ${added.length} added, ${removed.length} removed keys`));
+  }
+  plan.files.forEach(({ file, isSource, changedKeys, missingKeys, staleKeys, keysToTranslate, reusedKeys, resumedKeys, lockedKeys, chunks, estimatedPromptTokens }) => {
+    if (isSource) {
+      logger.info(chalk.gray(`   ${chalk.bold(file)}: source file, not translated`));
+      return;
     }
-
-    if (!contentStarted) continue;
-
-    // Only process lines that start with +
-    if (line.startsWith("+")) {
-      // Remove the + and any leading/trailing whitespace
-      const cleanLine = line.slice(1).trim();
-
-      // Skip empty lines or lines that don't look like JSON key-value pairs
-      if (!cleanLine || !cleanLine.includes('":')) continue;
-
-      // Remove trailing comma if it exists
-      const jsonLine = cleanLine.endsWith(",")
-        ? cleanLine.slice(0, -1)
-        : cleanLine;
-
-      try {
-        // Extract key and value using regex instead of JSON.parse
-        const matches = jsonLine.match(/"([^"]+)":\s*"([^"]+)"/);
-        if (matches) {
-          const [_, key, value] = matches;
-          changes[key] = value;
-        }
-      } catch (e) {
-        console.log("Failed to parse line:", jsonLine);
-        continue;
-      }
+    if (keysToTranslate.length === 0) {
+      logger.info(chalk.green(`   ${chalk.bold(file)}: up to date`));
+      return;
     }
-  }
-
-  return changes;
+    const details = [`${changedKeys.length} changed`, `${missingKeys.length} missing`];
+    if (staleKeys.length > 0) details.push(`${staleKeys.length} stale`);
+    if (reusedKeys.length > 0) details.push(`${reusedKeys.length} from translation memory`);
+    if (resumedKeys.length > 0) details.push(`${resumedKeys.length} from an interrupted run`);
+    if (lockedKeys.length > 0) details.push(`${lockedKeys.length} locked and skipped`);
+    logger.info(chalk.blue(
+      `   ${chalk.bold(file)}: ${chalk.bold(keysToTranslate.length.toString())} keys (${details.join(", ")}), ` +
+        `${chalk.bold(chunks.toString())} chunks, ~${chalk.bold(estimatedPromptTokens.toString())} prompt tokens`
+    ));
+  });
+  logger.info(chalk.cyan(
+    `   Total: ${chalk.bold(plan.totalKeys.toString())} keys, ${chalk.bold(plan.totalChunks.toString())} chunks, ` +
+      `~${chalk.bold(plan.estimatedPromptTokens.toString())} prompt tokens`
+  ));
 };
 
-// Helper function to chunk the object into smaller pieces
-const chunkObject = <T extends Record<string, unknown>>(obj: T, chunkSize): Partial<T>[] => {
-  const entries = Object.entries(obj);
-  const chunks: Partial<T>[] = [];
-
-  for (let i = 0; i < entries.length; i += chunkSize) {
-    const chunk = Object.fromEntries(entries.slice(i, i + chunkSize)) as Partial<T>;
-    chunks.push(chunk);
-  }
-
-  return chunks;
-}
-
-type TranslationError = {
+export type TranslationError = {
   file: string;
   chunkIndex: number;
   totalChunks: number;
@@ -182,11 +200,117 @@ type TranslationError = {
   };
   receivedFromApi?: string;
   rawError?: unknown;
+  // Set for translations that failed validation
+  key?: string;
+  problems?: string[];
+  // Set for keys the API did not return
+  missingKeys?: string[];
+};
+
+export type GenerateTranslationsOptions = {
+  openAiApiKey?: string;
+  assistantId?: string;
+  provider?: TranslationProvider;
+  productContext: string;
+  extraContextByFilename: Record<string, string>;
+  sourceFile: string;
+  sourceDirectory: string;
+  outputFiles: string[];
+  outputDirectory: string;
+  recreate?: boolean;
+  parallelLimit?: number;
+  // API requests running at the same time over all files, `parallelLimit` by default
+  maxConcurrentRequests?: number;
+  // Limits of the API account, requests wait in a shared queue until they fit
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  chunkSize?: number;
+  // Estimated tokens of the keys and texts of one request, chunks are split to stay below it
+  maxChunkTokens?: number;
+  // Prices of the model, needed for cost reporting and `maxCost`
+  pricing?: Pricing;
+  // Stops sending requests when the tokens / cost of the run would go over the limit
+  maxTokens?: number;
+  maxCost?: number;
+  keySeparator?: string;
+  nested?: boolean;
+  format?: FormatName | FormatAdapter;
+  validate?: boolean;
+  validationRetries?: number;
+  reconciliationRounds?: number;
+  translationMemory?: boolean | string;
+  // Source hashes of translated keys to find stale translations without git, `true` for `.translation-state.json`
+  stateFile?: boolean | string;
+  // Checkpoints finished chunks, `true` for `.translation-journal.json` in the output directory
+  resume?: boolean | string;
+  glossary?: GlossaryEntry[];
+  glossaryViolations?: "retry" | "warn";
+  // QA pass that scores new translations with a second prompt or model, see `ReviewOptions`
+  review?: ReviewOptions;
+  // Description and max length by key pattern (`nav.*`), a string is a description
+  keyContext?: Record<string, string | KeyContext>;
+  // Descriptions and max lengths by key, `en.context.json` next to the source file by default
+  contextFile?: string;
+  dryRun?: boolean;
+  // Key patterns (`legal.*`) that are never translated, by output file, locale or "*" for all files
+  lockedKeys?: Record<string, string[]>;
+  // Keys reviewed by a human, `.translation-locks.json` in the output directory by default
+  locksFile?: string;
+  // Remove keys that are no longer in the source from the output files
+  pruneOrphanedKeys?: boolean;
+  // "source" writes output files in the key order of the source file
+  keyOrder?: "existing" | "source";
+  // Git ref the source file is compared with to find changed keys, e.g. "origin/main"
+  baseRef?: string;
+  onEvent?: (event: TranslationEvent) => void;
+  // Receives all log messages, console by default
+  logger?: Logger;
+  silent?: boolean;
+};
+
+export type FileResult = {
+  file: string;
+  // Keys written to the file, including the ones reused from the translation memory
+  translatedKeys: string[];
+  reusedKeys: string[];
+  // Keys finished by an interrupted run, see `resume`
+  resumedKeys: string[];
+  // Requested keys that failed, see `errors`
+  failedKeys: string[];
+  // Source keys that did not need a translation
+  skippedKeys: string[];
+  // Keys removed because they are no longer in the source, see `pruneOrphanedKeys`
+  prunedKeys: string[];
+  // Keys that needed a translation but are locked
+  lockedKeys: string[];
+  // Locked keys whose source text changed since they were reviewed, they need a human
+  changedLockedKeys: string[];
+  // False for the source file, it is never written
+  written: boolean;
+  // Set when the file could not be written
+  writeError?: string;
+  // Tokens reported by the API for this file
+  usage: UsageReport;
+  // Set when `review` is enabled and keys were translated
+  review?: QaReport;
+  durationMs: number;
+};
+
+export type GenerateTranslationsResult = {
+  // False when any chunk, key or file write ended with an error
+  success: boolean;
+  files: FileResult[];
+  errors: TranslationError[];
+  // What was (or in a dry run would be) sent to the API
+  plan: TranslationPlan;
+  usage: UsageReport;
+  durationMs: number;
 };
 
 export const generateTranslations = ({
   openAiApiKey,
   assistantId,
+  provider: customProvider,
   productContext,
   extraContextByFilename,
   sourceFile,
@@ -195,33 +319,79 @@ export const generateTranslations = ({
   outputDirectory,
   recreate = false,
   parallelLimit = PARALLEL_LIMIT,
+  maxConcurrentRequests = parallelLimit,
+  requestsPerMinute,
+  tokensPerMinute,
   chunkSize = CHUNK_SIZE,
-}: {
-  openAiApiKey: string;
-  assistantId: string;
-  productContext: string;
-  extraContextByFilename: Record<string, string>;
-  sourceFile: string;
-  sourceDirectory: string;
-  outputFiles: string[];
-  outputDirectory: string;
-  recreate?: boolean;
-  parallelLimit?: number;
-  chunkSize?: number;
-}) => {
-  const aiClient = new OpenAI({ apiKey: openAiApiKey });
+  maxChunkTokens = MAX_CHUNK_TOKENS,
+  pricing,
+  maxTokens,
+  maxCost,
+  keySeparator = ".",
+  nested,
+  format,
+  validate = true,
+  validationRetries = VALIDATION_RETRIES,
+  reconciliationRounds = RECONCILIATION_ROUNDS,
+  translationMemory = false,
+  stateFile = false,
+  resume = true,
+  glossary = [],
+  glossaryViolations = "retry",
+  review,
+  keyContext = {},
+  contextFile,
+  dryRun = false,
+  baseRef,
+  lockedKeys = {},
+  locksFile,
+  pruneOrphanedKeys = false,
+  keyOrder = "existing",
+  onEvent,
+  logger: customLogger,
+  silent = false,
+}: GenerateTranslationsOptions) => {
+  const logger = silent ? silentLogger : customLogger ?? consoleLogger;
+  const emit = (event: TranslationEvent) => onEvent?.(event);
+  const provider = customProvider ?? (dryRun ? dryRunProvider : createDefaultProvider({ openAiApiKey, assistantId }));
   const errors: TranslationError[] = [];
+  const budget = createBudget({ maxTokens, maxCost, pricing });
+  const usageByFile: Record<string, TokenUsage> = {};
+  // Files and chunks are processed in parallel, the scheduler limits the requests over all of them
+  const scheduler = createRequestScheduler({ maxConcurrency: maxConcurrentRequests, requestsPerMinute, tokensPerMinute });
+  // Per-key context of the source keys, resolved when the source file is read
+  let keyContexts: Record<string, KeyContext> = {};
+  // Key contexts of each output file, including its plural forms
+  const fileContexts: Record<string, Record<string, KeyContext>> = {};
+  const reviewProvider = review?.provider ?? provider;
+  const reviewMode = review?.mode ?? "judge";
+  const reviewThreshold = review?.threshold ?? REVIEW_THRESHOLD;
+  if (reviewThreshold < 0 || reviewThreshold > 100) {
+    throw new Error("`review.threshold` must be between 0 and 100");
+  }
 
   // Log configuration (omitting API key)
-  console.log(chalk.cyan('🔧 Translation Configuration:'));
-  console.log(chalk.blue(`   Assistant ID: ${chalk.bold(assistantId)}`));
-  console.log(chalk.blue(`   Source File: ${chalk.bold(sourceFile)}`));
-  console.log(chalk.blue(`   Source Directory: ${chalk.bold(sourceDirectory)}`));
-  console.log(chalk.blue(`   Output Directory: ${chalk.bold(outputDirectory)}`));
-  console.log(chalk.blue(`   Output Files: ${chalk.bold(outputFiles.join(', '))}`));
-  console.log(chalk.blue(`   Recreate Mode: ${chalk.bold(recreate ? 'Yes' : 'No')}`));
-  console.log(chalk.blue(`   Parallel Limit: ${chalk.bold(parallelLimit.toString())}`));
-  console.log(chalk.blue(`   Chunk Size: ${chalk.bold(chunkSize.toString())}`));
+  logger.info(chalk.cyan('🔧 Translation Configuration:'));
+  logger.info(chalk.blue(`   Provider: ${chalk.bold(provider.name)}`));
+  logger.info(chalk.blue(`   Source File: ${chalk.bold(sourceFile)}`));
+  logger.info(chalk.blue(`   Source Directory: ${chalk.bold(sourceDirectory)}`));
+  logger.info(chalk.blue(`   Output Directory: ${chalk.bold(outputDirectory)}`));
+  logger.info(chalk.blue(`   Output Files: ${chalk.bold(outputFiles.join(', '))}`));
+  logger.info(chalk.blue(`   Recreate Mode: ${chalk.bold(recreate ? 'Yes' : 'No')}`));
+  logger.info(chalk.blue(`   Dry Run: ${chalk.bold(dryRun ? 'Yes' : 'No')}`));
+  logger.info(chalk.blue(`   Parallel Limit: ${chalk.bold(parallelLimit.toString())}, ${chalk.bold(maxConcurrentRequests.toString())} concurrent requests`));
+  if (requestsPerMinute !== undefined || tokensPerMinute !== undefined) {
+    const limits = [requestsPerMinute !== undefined ? `${requestsPerMinute} requests` : "", tokensPerMinute !== undefined ? `${tokensPerMinute} tokens` : ""];
+    logger.info(chalk.blue(`   Rate Limit: ${chalk.bold(limits.filter(Boolean).join(", "))} per minute`));
+  }
+  logger.info(chalk.blue(`   Chunk Size: ${chalk.bold(chunkSize.toString())} keys, ~${chalk.bold(maxChunkTokens.toString())} tokens`));
+  if (maxTokens !== undefined || maxCost !== undefined) {
+    const limits = [maxTokens !== undefined ? `${maxTokens} tokens` : "", maxCost !== undefined ? `$${maxCost}` : ""];
+    logger.info(chalk.blue(`   Budget: ${chalk.bold(limits.filter(Boolean).join(", "))}`));
+  }
+  if (review) {
+    logger.info(chalk.blue(`   Review: ${chalk.bold(reviewMode)} with ${chalk.bold(reviewProvider.name)}, threshold ${chalk.bold(reviewThreshold.toString())}`));
+  }
   
   const baseContext = `
     You are a professional translator that translates texts from english.
@@ -240,165 +410,739 @@ export const generateTranslations = ({
     return `${baseContext}\n\n${extraContext}`;
   };
 
+  // Adds the glossary entries whose terms appear in the texts and the context of the keys sent with the prompt
+  const createChunkPrompt = (filename: string, prompt: string, chunk: Record<string, string>) =>
+    [
+      prompt,
+      formatGlossary(glossary, Object.values(chunk), filename, localeFromFilename(filename)),
+      formatKeyContexts(fileContexts[filename] ?? keyContexts, Object.keys(chunk)),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+  // Every API call reserves its estimated tokens first, the reported usage is collected per output file
+  const requestTranslation = async (request: TranslationRequest, using = provider): Promise<TranslationResponse> => {
+    const chunkTokens = estimateTokens(JSON.stringify(request.chunk));
+    // Translations are about as long as their source texts
+    const estimate = { promptTokens: estimateTokens(request.prompt) + chunkTokens, completionTokens: chunkTokens };
+    await budget.reserve(estimate);
 
-  const run = async () => {
+    let response: TranslationResponse;
+    try {
+      const tokens = estimate.promptTokens + estimate.completionTokens;
+      // Retries are queued again, so they count against the rate limits and wait for a pause of the queue
+      response = using.schedulesAttempts
+        ? await using.translate({ ...request, scheduleAttempt: (attempt) => scheduler.schedule(tokens, attempt) })
+        : await scheduler.schedule(tokens, () => using.translate(request));
+    } catch (error) {
+      budget.settle(estimate);
+      throw error;
+    }
+    budget.settle(estimate, response.usage);
+    if (response.usage) {
+      usageByFile[request.file] = addUsage(usageByFile[request.file] ?? emptyUsage(), response.usage);
+    }
+    return response;
+  };
+
+  const pickKeys = (chunk: Record<string, string>, keys: string[]) =>
+    Object.fromEntries(keys.map((key) => [key, chunk[key]]));
+
+  const handleRateLimit = (file: string, chunkIndex: number) => (wait: RateLimitWait) => {
+    emit({ type: "rate-limit-wait", file, chunkIndex, ...wait });
+    // All requests back off together instead of running into the limit one by one
+    if (wait.reason === "rate-limit") {
+      scheduler.pause(wait.waitMs);
+    }
+    logger.warn(chalk.yellow(`⏳ ${chalk.bold(file)}: ${describeRetryReason(wait.reason)}. Waiting ${(wait.waitMs / 1000).toFixed(1)}s before retry (attempt ${wait.attempt}/${wait.maxRetries})...`));
+    logger.info(chalk.gray(`   ${wait.message}`));
+  };
+
+  // Keeps only the keys of the chunk and requests the missing ones again in follow-up calls
+  const reconcileResponse = async ({ file, prompt, chunk, response, chunkIndex, totalChunks }: {
+    file: string;
+    prompt: string;
+    chunk: Record<string, string>;
+    response: Record<string, string>;
+    chunkIndex: number;
+    totalChunks: number;
+  }) => {
+    const logDiscarded = ({ extra, renamed }: ReturnType<typeof reconcileKeys>) => {
+      if (extra.length > 0) {
+        logger.warn(chalk.yellow(`⚠️ ${chalk.bold(file)}: Discarded ${chalk.bold(extra.length.toString())} unknown keys in chunk ${chalk.bold(chunkIndex.toString())}: ${extra.join(", ")}`));
+      }
+      Object.entries(renamed).forEach(([receivedKey, key]) => {
+        logger.warn(chalk.yellow(`⚠️ ${chalk.bold(file)}: Key "${receivedKey}" was renamed by the model, using it for "${key}"`));
+      });
+    };
+
+    const reconciled = reconcileKeys(chunk, response);
+    logDiscarded(reconciled);
+    let translations = reconciled.translations;
+    let missing = reconciled.missing;
+
+    for (let round = 1; round <= reconciliationRounds && missing.length > 0; round++) {
+      logger.warn(chalk.yellow(`🔁 ${chalk.bold(file)}: ${chalk.bold(missing.length.toString())} keys missing in chunk ${chalk.bold(chunkIndex.toString())}, requesting them again (round ${round}/${reconciliationRounds})`));
+
+      try {
+        const missingChunk = pickKeys(chunk, missing);
+        const { translations: followUp } = await requestTranslation({
+          file,
+          prompt,
+          chunk: missingChunk,
+          onRateLimit: handleRateLimit(file, chunkIndex),
+        });
+        const followUpReconciled = reconcileKeys(missingChunk, followUp);
+        logDiscarded(followUpReconciled);
+        translations = { ...translations, ...followUpReconciled.translations };
+      } catch (followUpError: any) {
+        logger.error(chalk.red(`❌ ${chalk.bold(file)}: Follow-up request failed for chunk ${chalk.bold(chunkIndex.toString())}: ${followUpError.message}`));
+        break;
+      }
+
+      missing = Object.keys(chunk).filter((key) => !(key in translations));
+    }
+
+    if (missing.length > 0) {
+      errors.push({
+        file,
+        chunkIndex,
+        totalChunks,
+        error: `${missing.length} keys missing in the response`,
+        sentToApi: { prompt, chunk: pickKeys(chunk, missing) },
+        missingKeys: missing,
+      });
+    }
+
+    // Keep the order of the source
+    return pickKeys(translations, Object.keys(chunk).filter((key) => key in translations));
+  };
+
+  const findProblems = (file: string, chunk: Record<string, string>, translations: Record<string, string>) => {
+    const problemsByKey = validate ? validateTranslations(chunk, translations) : {};
+    if (glossaryViolations === "retry") {
+      const glossaryProblems = checkGlossary(glossary, chunk, translations, file, localeFromFilename(file));
+      Object.entries(glossaryProblems).forEach(([key, problems]) => {
+        problemsByKey[key] = [...(problemsByKey[key] ?? []), ...problems];
+      });
+    }
+    Object.entries(checkMaxLength(fileContexts[file] ?? keyContexts, translations)).forEach(([key, problems]) => {
+      problemsByKey[key] = [...(problemsByKey[key] ?? []), ...problems];
+    });
+    return problemsByKey;
+  };
+
+  // Re-requests translations that break placeholders, ICU messages, tags, line breaks or the glossary,
+  // the ones that are still invalid afterwards are dropped and reported
+  const retryInvalidTranslations = async ({ file, prompt, chunk, translations, chunkIndex, totalChunks }: {
+    file: string;
+    prompt: string;
+    chunk: Record<string, string>;
+    translations: Record<string, string>;
+    chunkIndex: number;
+    totalChunks: number;
+  }) => {
+    const result = { ...translations };
+    let problemsByKey = findProblems(file, chunk, result);
+
+    for (let attempt = 1; attempt <= validationRetries && Object.keys(problemsByKey).length > 0; attempt++) {
+      const invalidKeys = Object.keys(problemsByKey);
+      logger.warn(chalk.yellow(`🔁 ${chalk.bold(file)}: ${chalk.bold(invalidKeys.length.toString())} keys failed validation in chunk ${chalk.bold(chunkIndex.toString())}, retrying (attempt ${attempt}/${validationRetries})`));
+
+      try {
+        const retryChunk = pickKeys(chunk, invalidKeys);
+        const { translations: retried } = await requestTranslation({
+          file,
+          prompt: `${prompt}\n\n${formatValidationProblems(problemsByKey)}`,
+          chunk: retryChunk,
+          onRateLimit: handleRateLimit(file, chunkIndex),
+        });
+        invalidKeys.filter((key) => key in retried).forEach((key) => {
+          result[key] = retried[key];
+        });
+      } catch (retryError: any) {
+        logger.error(chalk.red(`❌ ${chalk.bold(file)}: Validation retry failed for chunk ${chalk.bold(chunkIndex.toString())}: ${retryError.message}`));
+        break;
+      }
+
+      problemsByKey = findProblems(file, chunk, result);
+    }
+
+    Object.entries(problemsByKey).forEach(([key, problems]) => {
+      errors.push({
+        file,
+        chunkIndex,
+        totalChunks,
+        error: `Translation of "${key}" failed validation`,
+        sentToApi: { prompt, chunk: { [key]: chunk[key] } },
+        receivedFromApi: JSON.stringify({ [key]: result[key] }),
+        key,
+        problems,
+      });
+      delete result[key];
+    });
+
+    if (glossaryViolations === "warn") {
+      const glossaryProblems = checkGlossary(glossary, chunk, result, file, localeFromFilename(file));
+      Object.entries(glossaryProblems).forEach(([key, problems]) => {
+        logger.warn(chalk.yellow(`⚠️ ${chalk.bold(file)}: Glossary violation in "${key}": ${problems.join("; ")}`));
+      });
+    }
+
+    return result;
+  };
+
+  // Scores translations with the review provider, keys without a usable review are left out
+  const scoreTranslations = async (file: string, source: Record<string, string>, translations: Record<string, string>) => {
+    const locale = localeFromFilename(file) ?? file;
+    const reviews: Record<string, KeyReview> = {};
+    const backTranslations: Record<string, string> = {};
+    const chunks = chunkObject(translations, chunkSize, maxChunkTokens) as Record<string, string>[];
+
+    await promiseAllLimited(
+      parallelLimit,
+      chunks.map((chunk, chunkIndex) => async () => {
+        try {
+          if (reviewMode === "back-translation") {
+            const { translations: back } = await requestTranslation({
+              file,
+              prompt: createBackTranslationPrompt(locale),
+              chunk,
+              onRateLimit: handleRateLimit(file, chunkIndex + 1),
+            }, reviewProvider);
+            Object.keys(chunk).filter((key) => typeof back[key] === "string").forEach((key) => {
+              backTranslations[key] = back[key];
+            });
+          }
+
+          const pairs = Object.fromEntries(
+            Object.entries(chunk).map(([key, translation]) => [
+              key,
+              JSON.stringify({ source: source[key], translation, ...(key in backTranslations ? { backTranslation: backTranslations[key] } : {}) }),
+            ])
+          );
+          const prompt = [
+            createReviewPrompt({
+              locale,
+              productContext,
+              extraContext: extraContextByFilename[file],
+              backTranslation: reviewMode === "back-translation",
+            }),
+            formatGlossary(glossary, Object.keys(chunk).map((key) => source[key]), file, localeFromFilename(file)),
+            formatKeyContexts(fileContexts[file] ?? keyContexts, Object.keys(chunk)),
+          ]
+            .filter(Boolean)
+            .join("\n\n");
+          const { translations: response } = await requestTranslation({
+            file,
+            prompt,
+            chunk: pairs,
+            onRateLimit: handleRateLimit(file, chunkIndex + 1),
+          }, reviewProvider);
+
+          Object.keys(chunk).forEach((key) => {
+            const keyReview = parseKeyReview(response[key]);
+            if (keyReview) {
+              reviews[key] = keyReview;
+            }
+          });
+        } catch (reviewError: any) {
+          logger.warn(chalk.yellow(`⚠️ ${chalk.bold(file)}: Review failed for ${chalk.bold(Object.keys(chunk).length.toString())} keys: ${reviewError.message}`));
+        }
+      })
+    );
+
+    return { reviews, backTranslations };
+  };
+
+  // QA pass over the new translations of a file: keys below the threshold are retranslated with the
+  // reviewer's comments (when the new translation scores better it is used) or flagged in the report
+  const reviewTranslations = async (file: string, prompt: string, source: Record<string, string>, translations: Record<string, string>) => {
+    const result = { ...translations };
+    const { reviews, backTranslations } = await scoreTranslations(file, source, result);
+    const retranslated = new Set<string>();
+    const isLow = (key: string) => key in reviews && reviews[key].score < reviewThreshold;
+    let lowKeys = Object.keys(result).filter(isLow);
+
+    const retries = review?.onLowScore === "flag" ? 0 : review?.retries ?? REVIEW_RETRIES;
+    for (let attempt = 1; attempt <= retries && lowKeys.length > 0; attempt++) {
+      logger.warn(chalk.yellow(`🔁 ${chalk.bold(file)}: ${chalk.bold(lowKeys.length.toString())} keys scored below ${reviewThreshold} in the review, retranslating (attempt ${attempt}/${retries})`));
+
+      const candidates: Record<string, string> = {};
+      for (const chunk of chunkObject(pickKeys(source, lowKeys), chunkSize, maxChunkTokens) as Record<string, string>[]) {
+        try {
+          const feedback = formatReviewFeedback(Object.fromEntries(Object.keys(chunk).map((key) => [key, reviews[key]])));
+          const { translations: retried } = await requestTranslation({
+            file,
+            prompt: `${createChunkPrompt(file, prompt, chunk)}\n\n${feedback}`,
+            chunk,
+            onRateLimit: handleRateLimit(file, 0),
+          });
+          // A retranslation that breaks validation is never used
+          const problems = findProblems(file, chunk, retried);
+          Object.keys(chunk)
+            .filter((key) => typeof retried[key] === "string" && !(key in problems))
+            .forEach((key) => {
+              candidates[key] = retried[key];
+            });
+        } catch (retryError: any) {
+          logger.error(chalk.red(`❌ ${chalk.bold(file)}: Retranslation of low scored keys failed: ${retryError.message}`));
+        }
+      }
+      if (Object.keys(candidates).length === 0) {
+        break;
+      }
+
+      const rescored = await scoreTranslations(file, source, candidates);
+      Object.entries(rescored.reviews)
+        .filter(([key, keyReview]) => keyReview.score > reviews[key].score)
+        .forEach(([key, keyReview]) => {
+          result[key] = candidates[key];
+          reviews[key] = keyReview;
+          retranslated.add(key);
+          if (key in rescored.backTranslations) {
+            backTranslations[key] = rescored.backTranslations[key];
+          } else {
+            delete backTranslations[key];
+          }
+        });
+      lowKeys = lowKeys.filter(isLow);
+    }
+
+    const entries: QaReportEntry[] = Object.entries(result).map(([key, translation]) => ({
+      key,
+      source: source[key],
+      translation,
+      ...reviews[key],
+      ...(key in backTranslations ? { backTranslation: backTranslations[key] } : {}),
+      status: !(key in reviews) ? "unreviewed" : isLow(key) ? "flagged" : retranslated.has(key) ? "retranslated" : "passed",
+    }));
+    const report = createQaReport({ file, locale: localeFromFilename(file), mode: reviewMode, threshold: reviewThreshold, entries });
+
+    const { summary } = report;
+    const flagged = report.entries.filter((entry) => entry.status === "flagged").map((entry) => entry.key);
+    logger.info(chalk.cyan(
+      `🔎 ${chalk.bold(file)}: Reviewed ${chalk.bold(summary.keys.toString())} keys` +
+        (summary.averageScore !== undefined ? `, average score ${chalk.bold(summary.averageScore.toString())}` : "") +
+        `, ${summary.retranslated} retranslated, ${summary.flagged} flagged`
+    ));
+    if (flagged.length > 0) {
+      logger.warn(chalk.yellow(`🚩 ${chalk.bold(file)}: Keys below the review threshold: ${flagged.join(", ")}`));
+    }
+    if (summary.unreviewed > 0) {
+      logger.warn(chalk.yellow(`⚠️ ${chalk.bold(file)}: ${summary.unreviewed} keys got no usable review`));
+    }
+    emit({
+      type: "review-done",
+      file,
+      reviewedKeys: summary.keys - summary.unreviewed,
+      retranslatedKeys: summary.retranslated,
+      flaggedKeys: summary.flagged,
+      averageScore: summary.averageScore,
+    });
+
+    return { translations: result, report };
+  };
+
+  // Reads a locale file through the format adapter chosen by `format` or the file extension
+  const parseCatalog = (content: string, file: string, isSource = false): LocaleCatalog =>
+    getFormatAdapter(file, format).parse(content, {
+      keySeparator,
+      locale: localeFromFilename(file),
+      isSource,
+    });
+
+  const readCatalog = (filePath: string, file: string, isSource = false): LocaleCatalog =>
+    parseCatalog(fs.readFileSync(filePath, { encoding: "utf8" }), file, isSource);
+
+  // `true` keeps the file next to the output files, a string is a custom path
+  const dataFilePath = (option: true | string, fileName: string) =>
+    typeof option === "string" ? option : path.join(outputDirectory, fileName);
+
+
+  const run = async (): Promise<GenerateTranslationsResult> => {
+    const runStartedAt = Date.now();
     try {
       // Read the source file
       const sourcePath = path.join(sourceDirectory, sourceFile);
-      console.log(chalk.blue(`📖 Reading source file: ${chalk.bold(sourcePath)}`));
+      logger.info(chalk.blue(`📖 Reading source file: ${chalk.bold(sourcePath)}`));
       
-      let sourceContent: Record<string, string>;
+      let sourceCatalog: LocaleCatalog;
       try {
-        sourceContent = JSON.parse(fs.readFileSync(sourcePath, { encoding: "utf8" }));
+        sourceCatalog = readCatalog(sourcePath, sourceFile, true);
       } catch (error: any) {
-        console.error(chalk.red(`❌ Failed to read source file: ${error.message}`));
+        logger.error(chalk.red(`❌ Failed to read source file: ${error.message}`));
         throw error;
       }
 
-      console.log(chalk.cyan(`📊 Source file contains ${chalk.bold(Object.keys(sourceContent).length.toString())} keys`));
+      const sourceContent = sourceCatalog.entries;
+
+      // Developer notes of the source file, key pattern rules and the context file
+      const contextPath = contextFile ?? path.join(sourceDirectory, contextFileName(sourceFile));
+      const hasContextFile = !!contextFile || fs.existsSync(contextPath);
+      if (hasContextFile) {
+        logger.info(chalk.gray(`📝 Using key context: ${chalk.italic(contextPath)}`));
+      }
+      keyContexts = resolveKeyContexts({
+        keys: Object.keys(sourceContent),
+        metadata: sourceCatalog.metadata,
+        rules: keyContext,
+        contextFile: hasContextFile ? readContextFile(contextPath) : {},
+      });
+
+      let memory: TranslationMemory | undefined;
+      if (translationMemory) {
+        const memoryPath = dataFilePath(translationMemory, TRANSLATION_MEMORY_FILE);
+        memory = createTranslationMemory(memoryPath);
+        logger.info(chalk.gray(`🧠 Using translation memory: ${chalk.italic(memoryPath)}`));
+      }
 
-      // Get changed keys from git diff (if not in recreate mode)
+      let state: TranslationState | undefined;
+      if (stateFile) {
+        const statePath = dataFilePath(stateFile, STATE_FILE);
+        state = createTranslationState(statePath);
+        logger.info(chalk.gray(`🔖 Using translation state: ${chalk.italic(statePath)}`));
+      }
+      logger.info(chalk.cyan(`📊 Source file contains ${chalk.bold(Object.keys(sourceContent).length.toString())} keys`));
+
+      // Get changed keys by comparing the parsed source file with its version at the base ref (if not in recreate mode)
       let changedKeysFromGit: Set<string> = new Set();
+      let sourceChanges: SourceChanges | undefined;
       
       if (!recreate) {
+        const ref = baseRef ?? "HEAD";
         try {
-          const diffCommand = `git diff ${sourcePath}`;
-          console.log(chalk.gray(`🔍 Executing: ${chalk.italic(diffCommand)}`));
-          console.log(chalk.gray(`📂 Working directory: ${chalk.italic(sourceDirectory)}`));
-          
-          const diffOutput = execSync(diffCommand, {
-            cwd: sourceDirectory,
-            encoding: "utf-8",
-            shell: process.platform === 'win32' ? 'cmd.exe' : '/bin/bash',
-            env: { ...process.env }
-          });
-          
-          const gitChanges = parseGitDiff(diffOutput);
-          changedKeysFromGit = new Set(Object.keys(gitChanges));
-          
-          if (changedKeysFromGit.size > 0) {
-            console.log(chalk.cyan(`🔄 Git diff detected ${chalk.bold(changedKeysFromGit.size.toString())} changed keys`));
+          logger.info(chalk.gray(`🔍 Comparing ${chalk.italic(sourcePath)} with ${chalk.italic(ref)}`));
+          const baseContent = readFileAtRef(sourcePath, ref);
+          if (baseContent === undefined && !baseRef) {
+            // An untracked or just staged source file, existing translations must not be overwritten
+            logger.info(chalk.gray(`ℹ️  Source file is not committed at ${ref} yet, will only translate missing keys`));
           } else {
-            console.log(chalk.gray(`ℹ️  No changes detected in git diff`));
+            if (baseContent === undefined) {
+              logger.info(chalk.gray(`ℹ️  Source file does not exist at ${ref}, all keys are new`));
+            }
+            const baseEntries = baseContent === undefined ? {} : parseCatalog(baseContent, sourceFile, true).entries;
+            sourceChanges = compareEntries(baseEntries, sourceContent);
+            changedKeysFromGit = new Set([...sourceChanges.changed, ...sourceChanges.added]);
+
+            const { changed, added, removed } = sourceChanges;
+            if (changed.length + added.length + removed.length > 0) {
+              logger.info(chalk.cyan(`🔄 Git detected ${chalk.bold(changed.length.toString())} changed, ${chalk.bold(added.length.toString())} added and ${chalk.bold(removed.length.toString())} removed keys since ${chalk.bold(ref)}`));
+            } else {
+              logger.info(chalk.gray(`ℹ️  No changes detected since ${ref}`));
+            }
           }
         } catch (gitError: any) {
-          console.log(chalk.yellow(`⚠️  Git diff failed or not available: ${gitError.message}`));
-          console.log(chalk.yellow(`   Will only translate missing keys based on file comparison`));
+          // An explicitly configured base ref must work, otherwise stale translations would stay unnoticed
+          if (baseRef) {
+            throw new Error(`Change detection against ${baseRef} failed: ${gitError.message}`);
+          }
+          logger.warn(chalk.yellow(`⚠️  Git change detection failed or not available: ${gitError.message}`));
+          logger.warn(chalk.yellow(`   Will only translate missing keys based on file comparison`));
         }
       }
 
-      // For each file, create a promise to call the AI assistant
-      const jobs = outputFiles.map((file) => async () => {
+      const journal = resume ? createTranslationJournal(dataFilePath(resume, JOURNAL_FILE)) : undefined;
+      const checkpoint = (file: string, prompt: string, chunk: Record<string, string>, translations: Record<string, string>) => {
+        try {
+          journal?.record(file, prompt, chunk, translations);
+          journal?.save();
+        } catch (error: any) {
+          logger.warn(chalk.yellow(`⚠️ ${chalk.bold(file)}: Failed to checkpoint translations: ${error.message}`));
+        }
+      };
+
+      const locksPath = locksFile ?? path.join(outputDirectory, LOCKS_FILE);
+      const locks = createLockStore(locksPath);
+      if (fs.existsSync(locksPath)) {
+        logger.info(chalk.gray(`🔒 Using locked keys: ${chalk.italic(locksPath)}`));
+      }
+
+      const changedSourceKeys = new Set(sourceChanges?.changed ?? []);
+      const plans: Record<string, FilePlan> = {};
+      // Source entries of each output file, including the plural forms its locale needs
+      const fileSources: Record<string, Record<string, string>> = {};
+      const reports: Record<string, QaReport> = {};
+
+      const translateFile = async (file: string) => {
         const targetPath = path.join(outputDirectory, file);
+        const plan: FilePlan = {
+          file,
+          isSource: path.resolve(targetPath) === path.resolve(sourcePath),
+          changedKeys: [],
+          missingKeys: [],
+          staleKeys: [],
+          keysToTranslate: [],
+          reusedKeys: [],
+          resumedKeys: [],
+          lockedKeys: [],
+          changedLockedKeys: [],
+          chunks: 0,
+          estimatedPromptTokens: 0,
+        };
+        plans[file] = plan;
+
+        // Keys of the source file are never sent to the API, they would overwrite the source texts
+        if (plan.isSource) {
+          fileSources[file] = sourceContent;
+          logger.info(chalk.gray(`ℹ️  ${chalk.bold(file)}: This is the source file, nothing to translate`));
+          emit({ type: "file-start", file, keysToTranslate: 0, changedKeys: 0, missingKeys: 0, staleKeys: 0 });
+          return { [file]: {} };
+        }
+
+        // Plural forms the locale needs but the source does not have are translated like source keys
+        const { entries: fileSource, variants } = addPluralVariants(sourceContent, localeFromFilename(file));
+        fileSources[file] = fileSource;
+        fileContexts[file] = addPluralContexts(keyContexts, fileSource, variants, localeFromFilename(file));
+        // New plural forms change together with their `_other` key
+        const sourceKeyOf = (key: string) => variants[key] ?? key;
+        const pluralCount = Object.keys(variants).length;
+        if (pluralCount > 0) {
+          logger.info(chalk.gray(`➕ ${chalk.bold(file)}: Adding ${pluralCount} plural forms the source does not have: ${Object.keys(variants).join(", ")}`));
+        }
         
         // Determine what keys need to be translated for this specific file
         let keysToTranslate: Record<string, string>;
         
         if (recreate) {
           // If recreate flag is set, translate all keys from source
-          console.log(chalk.blue(`🔄 ${chalk.bold(file)}: Recreate mode - translating all ${chalk.bold(Object.keys(sourceContent).length.toString())} keys`));
-          keysToTranslate = sourceContent;
+          logger.info(chalk.blue(`🔄 ${chalk.bold(file)}: Recreate mode - translating all ${chalk.bold(Object.keys(fileSource).length.toString())} keys`));
+          keysToTranslate = fileSource;
         } else {
           // Compare source and target to find missing keys
           let targetContent: Record<string, string>;
           try {
-            targetContent = JSON.parse(fs.readFileSync(targetPath, { encoding: "utf8" }));
-            console.log(chalk.gray(`📖 ${chalk.bold(file)}: Loaded existing file with ${chalk.bold(Object.keys(targetContent).length.toString())} keys`));
+            targetContent = readCatalog(targetPath, file).entries;
+            logger.info(chalk.gray(`📖 ${chalk.bold(file)}: Loaded existing file with ${chalk.bold(Object.keys(targetContent).length.toString())} keys`));
           } catch (e: any) {
             throw new Error(`Target file not found: ${targetPath}. Please create the file before running translations, or use recreate: true to generate it from scratch.`);
           }
           
           // Find keys that need to be translated:
-          // 1. Keys that changed in git diff (changedKeysFromGit)
+          // 1. Keys changed or added since the base ref (changedKeysFromGit)
           // 2. Keys that are in source but not in target (missing keys)
+          // 3. Keys whose source text changed since they were translated (stale keys)
           const keysToTranslateSet = new Set<string>();
           
           // Add all changed keys from git diff
-          changedKeysFromGit.forEach(key => {
-            if (key in sourceContent) {
+          Object.keys(fileSource).forEach(key => {
+            if (changedKeysFromGit.has(sourceKeyOf(key))) {
               keysToTranslateSet.add(key);
             }
           });
           
           // Add all missing keys (in source but not in target)
-          Object.keys(sourceContent).forEach(key => {
+          Object.keys(fileSource).forEach(key => {
             if (!(key in targetContent)) {
               keysToTranslateSet.add(key);
             }
           });
           
+          plan.staleKeys = state?.staleKeys(file, fileSource, locks.lockedKeys(file)) ?? [];
+          plan.staleKeys.forEach((key) => keysToTranslateSet.add(key));
+
           // Build the object with keys to translate
           keysToTranslate = Array.from(keysToTranslateSet).reduce((acc, key) => {
-            acc[key] = sourceContent[key];
+            acc[key] = fileSource[key];
             return acc;
           }, {} as Record<string, string>);
           
+          plan.changedKeys = Object.keys(fileSource).filter(k => changedKeysFromGit.has(sourceKeyOf(k)));
+          plan.missingKeys = Object.keys(fileSource).filter(k => !(k in targetContent));
+
           const totalCount = keysToTranslateSet.size;
-          const changedCount = Array.from(changedKeysFromGit).filter(k => k in sourceContent).length;
-          const missingCount = Object.keys(sourceContent).filter(k => !(k in targetContent)).length;
+          const changedCount = plan.changedKeys.length;
+          const missingCount = plan.missingKeys.length;
+          const staleDetails = state ? `, ${chalk.bold(plan.staleKeys.length.toString())} stale` : "";
           
-          if (totalCount === 0) {
-            console.log(chalk.green(`✅ ${chalk.bold(file)}: Already up to date, no keys to translate`));
-            return { [file]: {} };
+          if (totalCount > 0) {
+            logger.info(chalk.yellow(`🔄 ${chalk.bold(file)}: Found ${chalk.bold(totalCount.toString())} keys to translate (${chalk.bold(changedCount.toString())} changed, ${chalk.bold(missingCount.toString())} missing${staleDetails})`));
           }
-          
-          console.log(chalk.yellow(`🔄 ${chalk.bold(file)}: Found ${chalk.bold(totalCount.toString())} keys to translate (${chalk.bold(changedCount.toString())} changed, ${chalk.bold(missingCount.toString())} missing)`));
+        }
+
+        // Keys locked by patterns or reviewed by a human are never sent to the API
+        const reviewed = locks.lockedKeys(file);
+        const matchesLockedPattern = createKeyMatcher(lockedKeyPatterns(lockedKeys, file, localeFromFilename(file)));
+        const isLocked = (key: string) => key in reviewed || matchesLockedPattern(key);
+        plan.lockedKeys = Object.keys(keysToTranslate).filter(isLocked);
+        plan.changedLockedKeys = Object.keys(fileSource).filter((key) =>
+          key in reviewed ? reviewed[key] !== fileSource[key] : isLocked(key) && changedSourceKeys.has(sourceKeyOf(key))
+        );
+        if (plan.lockedKeys.length > 0) {
+          logger.info(chalk.gray(`🔒 ${chalk.bold(file)}: Skipping ${plan.lockedKeys.length} locked keys`));
+          keysToTranslate = pickKeys(keysToTranslate, Object.keys(keysToTranslate).filter((key) => !isLocked(key)));
+        }
+        if (plan.changedLockedKeys.length > 0) {
+          logger.warn(chalk.yellow(`🔒 ${chalk.bold(file)}: Source text changed for ${chalk.bold(plan.changedLockedKeys.length.toString())} locked keys, they need a manual review: ${plan.changedLockedKeys.join(", ")}`));
+        }
+
+        const requestedKeys = Object.keys(keysToTranslate);
+        plan.keysToTranslate = requestedKeys;
+        emit({
+          type: "file-start",
+          file,
+          keysToTranslate: requestedKeys.length,
+          changedKeys: plan.changedKeys.length,
+          missingKeys: plan.missingKeys.length,
+          staleKeys: plan.staleKeys.length,
+        });
+
+        if (requestedKeys.length === 0) {
+          logger.info(chalk.green(`✅ ${chalk.bold(file)}: Already up to date, no keys to translate`));
+          return { [file]: {} };
         }
         
-        // Split the keys to translate into chunks
-        const chunks = chunkObject(keysToTranslate, chunkSize);
-        
+        // Numbers, booleans and null of JSON and YAML files are no text, they are written as they are
+        const kept = pickKeys(keysToTranslate, requestedKeys.filter((key) => typeof keysToTranslate[key] !== "string"));
+        keysToTranslate = pickKeys(keysToTranslate, requestedKeys.filter((key) => !(key in kept)));
+
         const prompt = createFinalPrompt(file);
-        console.log(chalk.blue(`🔄 ${chalk.bold(file)}: creating ${chalk.bold(chunks.length.toString())} chunks`));
+        const locale = localeFromFilename(file) ?? file;
+
+        // Exact matches from the translation memory need no API call
+        const reused: Record<string, string> = {};
+        if (memory) {
+          Object.entries(keysToTranslate).forEach(([key, value]) => {
+            const cached = memory.lookup(locale, createChunkPrompt(file, prompt, { [key]: value }), value);
+            if (cached !== undefined) {
+              reused[key] = cached;
+            }
+          });
+
+          plan.reusedKeys = Object.keys(reused);
+          const reusedCount = plan.reusedKeys.length;
+          if (reusedCount > 0) {
+            logger.info(chalk.cyan(`🧠 ${chalk.bold(file)}: Reusing ${chalk.bold(reusedCount.toString())} translations from translation memory`));
+            keysToTranslate = pickKeys(keysToTranslate, Object.keys(keysToTranslate).filter((key) => !(key in reused)));
+          }
+        }
+
+        // Chunks an interrupted run already translated
+        const resumed = journal?.resume(file, prompt, keysToTranslate) ?? {};
+        plan.resumedKeys = Object.keys(resumed);
+        if (plan.resumedKeys.length > 0) {
+          logger.info(chalk.cyan(`♻️  ${chalk.bold(file)}: Resuming ${chalk.bold(plan.resumedKeys.length.toString())} keys translated by an interrupted run`));
+          keysToTranslate = pickKeys(keysToTranslate, Object.keys(keysToTranslate).filter((key) => !(key in resumed)));
+        }
+
+        if (Object.keys(keysToTranslate).length === 0) {
+          const done = { ...kept, ...reused, ...resumed };
+          return { [file]: pickKeys(done, requestedKeys.filter((key) => key in done)) };
+        }
+
+        // Split the keys to translate into chunks
+        const chunks = chunkObject(keysToTranslate, chunkSize, maxChunkTokens);
+        plan.chunks = chunks.length;
+        plan.estimatedPromptTokens = chunks.reduce<number>(
+          (sum, chunk) =>
+            sum + estimateTokens(createChunkPrompt(file, prompt, chunk as Record<string, string>)) + estimateTokens(JSON.stringify(chunk)),
+          0
+        );
+
+        if (dryRun) {
+          return { [file]: {} };
+        }
+
+        logger.info(chalk.blue(`🔄 ${chalk.bold(file)}: creating ${chalk.bold(chunks.length.toString())} chunks`));
         // Call the AI assistant for each chunk
         const responses = await promiseAllLimited(
           parallelLimit,
           chunks.map((chunk, chunkIndex) => async () => {
-            console.log(
+            const chunkPrompt = createChunkPrompt(file, prompt, chunk as Record<string, string>);
+            const chunkStartedAt = Date.now();
+            emit({ type: "chunk-start", file, chunkIndex: chunkIndex + 1, totalChunks: chunks.length, keys: Object.keys(chunk).length });
+            logger.info(
               chalk.blue(`🤖 ${chalk.bold(file)}: calling AI assistant for chunk ${chalk.bold((chunkIndex + 1).toString())} of ${
                 chalk.bold(chunks.length.toString())
               }`)
             );
             
             try {
-              const content = `${prompt}\n\n${JSON.stringify(chunk)}`;
-              const aiResponse = await callTsAiAssistant({
-                assistant_id: assistantId,
-                content,
-                client: aiClient,
+              const { translations: response } = await requestTranslation({
+                file,
+                prompt: chunkPrompt,
+                chunk: chunk as Record<string, string>,
+                onRateLimit: handleRateLimit(file, chunkIndex + 1),
               });
 
-              console.log(
+              logger.info(
                 chalk.green(`✅ ${chalk.bold(file)}: AI generated translations for chunk ${chalk.bold(
                   (chunkIndex + 1).toString()
                 )} of ${chalk.bold(chunks.length.toString())}`)
               );
 
-              try {
-                return JSON.parse(aiResponse);
-              } catch (parseError) {
+              const translations = await reconcileResponse({
+                file,
+                prompt: chunkPrompt,
+                chunk: chunk as Record<string, string>,
+                response,
+                chunkIndex: chunkIndex + 1,
+                totalChunks: chunks.length,
+              });
+
+              const valid = await retryInvalidTranslations({
+                file,
+                prompt: chunkPrompt,
+                chunk: chunk as Record<string, string>,
+                translations,
+                chunkIndex: chunkIndex + 1,
+                totalChunks: chunks.length,
+              });
+              checkpoint(file, prompt, chunk as Record<string, string>, valid);
+              emit({
+                type: "chunk-done",
+                file,
+                chunkIndex: chunkIndex + 1,
+                totalChunks: chunks.length,
+                translatedKeys: Object.keys(valid).length,
+                durationMs: Date.now() - chunkStartedAt,
+              });
+              return valid;
+            } catch (apiError: any) {
+              emit({
+                type: "chunk-failed",
+                file,
+                chunkIndex: chunkIndex + 1,
+                totalChunks: chunks.length,
+                error: apiError?.message ?? String(apiError),
+                durationMs: Date.now() - chunkStartedAt,
+              });
+
+              if (apiError instanceof BudgetExceededError) {
+                logger.error(chalk.red(`💸 ${chalk.bold(file)}: Skipping chunk ${chalk.bold((chunkIndex + 1).toString())}: ${apiError.message}`));
+                errors.push({
+                  file,
+                  chunkIndex: chunkIndex + 1,
+                  totalChunks: chunks.length,
+                  error: apiError.message,
+                  sentToApi: { prompt: chunkPrompt, chunk },
+                });
+                return null;
+              }
+
+              if (apiError instanceof InvalidResponseError) {
                 // Failed to parse JSON response
-                console.error(
+                logger.error(
                   chalk.red(`❌ ${chalk.bold(file)}: Failed to parse JSON for chunk ${chalk.bold(
                     (chunkIndex + 1).toString()
                   )} - continuing with other chunks`)
                 );
-                
+
                 errors.push({
                   file,
                   chunkIndex: chunkIndex + 1,
                   totalChunks: chunks.length,
-                  error: 'Failed to parse JSON response',
-                  sentToApi: { prompt, chunk },
-                  receivedFromApi: aiResponse,
-                  rawError: parseError,
+                  error: apiError.message,
+                  sentToApi: { prompt: chunkPrompt, chunk },
+                  receivedFromApi: apiError.raw,
+                  rawError: apiError.rawError,
                 });
-                
+
                 return null;
               }
-            } catch (apiError) {
+
               // API call failed
-              console.error(
+              logger.error(
                 chalk.red(`❌ ${chalk.bold(file)}: API call failed for chunk ${chalk.bold(
                   (chunkIndex + 1).toString()
                 )} - continuing with other chunks`)
@@ -409,7 +1153,7 @@ export const generateTranslations = ({
                 chunkIndex: chunkIndex + 1,
                 totalChunks: chunks.length,
                 error: 'API call failed',
-                sentToApi: { prompt, chunk },
+                sentToApi: { prompt: chunkPrompt, chunk },
                 rawError: apiError,
               });
               
@@ -427,17 +1171,42 @@ export const generateTranslations = ({
 
         const successfulChunks = validResponses.length;
         if (successfulChunks < chunks.length) {
-          console.log(chalk.yellow(`⚠️ ${chalk.bold(file)}: Processed ${chalk.bold(successfulChunks.toString())} of ${chalk.bold(chunks.length.toString())} chunks successfully`));
+          logger.warn(chalk.yellow(`⚠️ ${chalk.bold(file)}: Processed ${chalk.bold(successfulChunks.toString())} of ${chalk.bold(chunks.length.toString())} chunks successfully`));
         } else {
-          console.log(chalk.green(`✅ ${chalk.bold(file)}: AI generated translations for all chunks`));
+          logger.info(chalk.green(`✅ ${chalk.bold(file)}: AI generated translations for all chunks`));
+        }
+
+        let generated: Record<string, string> = { ...resumed, ...merged };
+        if (review && Object.keys(generated).length > 0) {
+          const reviewed = await reviewTranslations(file, prompt, fileSource, generated);
+          generated = reviewed.translations;
+          reports[file] = reviewed.report;
         }
 
+        // Flagged translations are not reused by later runs
+        const flagged = new Set(reports[file]?.entries.filter((entry) => entry.status === "flagged").map((entry) => entry.key));
+        Object.entries(generated).filter(([key]) => !flagged.has(key)).forEach(([key, value]) => {
+          const sourceText = fileSource[key];
+          memory?.store(locale, createChunkPrompt(file, prompt, { [key]: sourceText }), sourceText, value);
+        });
+
+        const translated: Record<string, string> = { ...kept, ...reused, ...generated };
         return {
-          [file]: merged,
+          [file]: pickKeys(translated, requestedKeys.filter((key) => key in translated)),
         };
+      };
+
+      // For each file, create a promise to call the AI assistant
+      const durations: Record<string, number> = {};
+      const jobs = outputFiles.map((file) => async () => {
+        const fileStartedAt = Date.now();
+        const result = await translateFile(file);
+        durations[file] = Date.now() - fileStartedAt;
+        return result;
       });
 
       const results = await promiseAllLimited(parallelLimit, jobs);
+      const plan = createTranslationPlan(outputFiles.map((file) => plans[file]), sourceChanges);
 
       // Merge the results
       const translations = results.reduce<
@@ -446,93 +1215,240 @@ export const generateTranslations = ({
         return { ...acc, ...curr };
       }, {});
 
-      console.log(chalk.cyan("📊 All translations generated successfully"));
+      const writeErrors: Record<string, string> = {};
+      const prunedKeys: Record<string, string[]> = {};
+      const createFileResult = (file: string, written: boolean): FileResult => {
+        const translated = translations[file] ?? {};
+        const requested = new Set(plans[file].keysToTranslate);
+        return {
+          file,
+          translatedKeys: Object.keys(translated),
+          reusedKeys: plans[file].reusedKeys.filter((key) => key in translated),
+          resumedKeys: plans[file].resumedKeys,
+          failedKeys: plans[file].keysToTranslate.filter((key) => !(key in translated)),
+          skippedKeys: Object.keys(fileSources[file]).filter((key) => !requested.has(key)),
+          prunedKeys: prunedKeys[file] ?? [],
+          lockedKeys: plans[file].lockedKeys,
+          changedLockedKeys: plans[file].changedLockedKeys,
+          written,
+          writeError: writeErrors[file],
+          usage: createUsageReport(usageByFile[file] ?? emptyUsage(), pricing),
+          ...(reports[file] ? { review: reports[file] } : {}),
+          durationMs: durations[file],
+        };
+      };
+
+      if (dryRun) {
+        printPlan(plan, logger);
+        if (maxTokens !== undefined && plan.estimatedPromptTokens > maxTokens) {
+          logger.warn(chalk.yellow(`💸 The estimated prompt tokens alone exceed maxTokens (${maxTokens}), the run would stop before all chunks are sent`));
+        }
+        return {
+          success: true,
+          files: outputFiles.map((file) => createFileResult(file, false)),
+          errors,
+          plan,
+          usage: createUsageReport(emptyUsage(), pricing),
+          durationMs: Date.now() - runStartedAt,
+        };
+      }
+
+      logger.info(chalk.cyan("📊 All translations generated successfully"));
 
-      console.log(chalk.cyan("📈 Number of translated keys per file:"));
+      logger.info(chalk.cyan("📈 Number of translated keys per file:"));
       outputFiles.forEach((file) => {
         const translatedCount = Object.keys(translations[file] || {}).length;
-        console.log(chalk.blue(`   ${chalk.bold(file)}: ${chalk.bold(translatedCount.toString())} new keys translated`));
+        logger.info(chalk.blue(`   ${chalk.bold(file)}: ${chalk.bold(translatedCount.toString())} new keys translated`));
       });
 
       // Define the files to update
       // Update each file
       for (const file of outputFiles) {
         const filePath = path.join(outputDirectory, file);
+        const fileSource = fileSources[file];
+        // The source file is neither pruned nor reordered
+        if (plans[file].isSource) {
+          continue;
+        }
 
         try {
           // Read existing file or create empty object if doesn't exist
-          let existingContent = {};
+          let existingCatalog: LocaleCatalog | undefined;
           try {
-            existingContent = JSON.parse(
-              fs.readFileSync(filePath, { encoding: "utf8" })
-            );
+            existingCatalog = readCatalog(filePath, file);
           } catch (e) {
-            console.log(chalk.blue(`📄 Creating new file: ${chalk.bold(file)}`));
+            logger.info(chalk.blue(`📄 Creating new file: ${chalk.bold(file)}`));
           }
 
           // Merge new translations with existing content
-          const updatedContent = {
-            ...existingContent,
+          let updatedContent: Record<string, string> = {
+            ...(existingCatalog?.entries ?? {}),
             ...(translations[file] || {}),
           };
 
-          // Write back to file with explicit UTF-8 encoding
-          fs.writeFileSync(filePath, JSON.stringify(updatedContent, null, 2), {
-            encoding: "utf8",
+          // Keys removed from the source, untranslated entries of PO / XLIFF files included
+          const orphanedKeys = Array.from(
+            new Set([...Object.keys(existingCatalog?.entries ?? {}), ...Object.keys(existingCatalog?.metadata ?? {})])
+          ).filter((key) => !(key in fileSource));
+          if (orphanedKeys.length > 0 && pruneOrphanedKeys) {
+            updatedContent = pickKeys(updatedContent, Object.keys(updatedContent).filter((key) => key in fileSource));
+            prunedKeys[file] = orphanedKeys;
+            logger.info(chalk.cyan(`🧹 ${chalk.bold(file)}: Removing ${chalk.bold(orphanedKeys.length.toString())} keys that are no longer in the source`));
+          } else if (orphanedKeys.length > 0) {
+            logger.info(chalk.gray(`ℹ️  ${chalk.bold(file)}: ${orphanedKeys.length} keys are no longer in the source, use pruneOrphanedKeys to remove them`));
+          }
+
+          if (keyOrder === "source") {
+            updatedContent = pickKeys(updatedContent, sortBySourceOrder(Object.keys(updatedContent), Object.keys(fileSource)));
+          }
+
+          const output = getFormatAdapter(file, format).serialize(updatedContent, {
+            keySeparator,
+            locale: localeFromFilename(file),
+            source: { ...sourceCatalog, entries: fileSource },
+            previous: existingCatalog,
+            nested,
+            sourceOrder: keyOrder === "source",
+            prune: pruneOrphanedKeys,
           });
 
-          console.log(chalk.green(`✅ Updated ${chalk.bold(file)} successfully`));
+          // Write through a temporary file, an interrupted run never leaves a half written file
+          writeFileAtomic(filePath, output);
+          journal?.complete(file);
+
+          state?.update(file, fileSource, Object.keys(updatedContent), Object.keys(translations[file] || {}), locks.lockedKeys(file));
+
+          logger.info(chalk.green(`✅ Updated ${chalk.bold(file)} successfully`));
+          emit({ type: "file-written", file, path: filePath, translatedKeys: Object.keys(translations[file] || {}).length });
         } catch (error: any) {
-          console.error(chalk.red(`❌ Error updating ${chalk.bold(file)}: ${error.message}`));
+          logger.error(chalk.red(`❌ Error updating ${chalk.bold(file)}: ${error.message}`));
+          writeErrors[file] = error.message;
+          emit({ type: "file-failed", file, path: filePath, error: error.message });
         }
       }
+
+      const changedLocked = outputFiles.filter((file) => plans[file].changedLockedKeys.length > 0);
+      if (changedLocked.length > 0) {
+        logger.warn(chalk.yellow("🔒 Locked keys whose source text changed, review them and lock them again:"));
+        changedLocked.forEach((file) => {
+          logger.warn(chalk.yellow(`   ${chalk.bold(file)}: ${plans[file].changedLockedKeys.join(", ")}`));
+        });
+      }
+
+      if (Object.keys(prunedKeys).length > 0) {
+        logger.info(chalk.cyan("🧹 Removed keys that are no longer in the source:"));
+        Object.entries(prunedKeys).forEach(([file, keys]) => {
+          logger.info(chalk.blue(`   ${chalk.bold(file)}: ${keys.join(", ")}`));
+        });
+      }
+
+      try {
+        memory?.save();
+      } catch (error: any) {
+        logger.error(chalk.red(`❌ Error saving translation memory: ${error.message}`));
+      }
+
+      try {
+        journal?.save();
+      } catch (error: any) {
+        logger.error(chalk.red(`❌ Error saving translation journal: ${error.message}`));
+      }
+
+      try {
+        state?.save();
+      } catch (error: any) {
+        logger.error(chalk.red(`❌ Error saving translation state: ${error.message}`));
+      }
+
+      if (Object.keys(reports).length > 0) {
+        const reportDirectory = review?.reportDirectory ?? path.join(outputDirectory, QA_REPORT_DIRECTORY);
+        logger.info(chalk.cyan("🔎 QA reports:"));
+        outputFiles.filter((file) => file in reports).forEach((file) => {
+          const reportPath = path.join(reportDirectory, qaReportFileName(file));
+          try {
+            writeFileAtomic(reportPath, JSON.stringify(reports[file], null, 2));
+            const { summary } = reports[file];
+            logger.info(chalk.blue(`   ${chalk.bold(file)}: ${summary.flagged} flagged of ${summary.keys} keys, ${chalk.italic(reportPath)}`));
+          } catch (error: any) {
+            logger.error(chalk.red(`❌ Error writing QA report of ${chalk.bold(file)}: ${error.message}`));
+          }
+        });
+      }
+      
+      const usage = createUsageReport(Object.values(usageByFile).reduce(addUsage, emptyUsage()), pricing);
+      if (usage.promptTokens + usage.completionTokens > 0) {
+        const formatUsage = ({ promptTokens, completionTokens, cost }: UsageReport) =>
+          `${promptTokens} prompt + ${completionTokens} completion tokens${cost !== undefined ? ` (~$${cost.toFixed(4)})` : ""}`;
+        logger.info(chalk.cyan("💰 Token usage reported by the API:"));
+        outputFiles.filter((file) => file in usageByFile).forEach((file) => {
+          logger.info(chalk.blue(`   ${chalk.bold(file)}: ${formatUsage(createUsageReport(usageByFile[file], pricing))}`));
+        });
+        logger.info(chalk.blue(`   Total: ${chalk.bold(formatUsage(usage))}`));
+      }
       
       // Log all errors at the end
       if (errors.length > 0) {
-        console.log('\n');
-        console.log(chalk.red('═══════════════════════════════════════════════════════════'));
-        console.log(chalk.red.bold(`❌ TRANSLATION ERRORS SUMMARY (${errors.length} total)`));
-        console.log(chalk.red('═══════════════════════════════════════════════════════════'));
+        logger.info('\n');
+        logger.info(chalk.red('═══════════════════════════════════════════════════════════'));
+        logger.info(chalk.red.bold(`❌ TRANSLATION ERRORS SUMMARY (${errors.length} total)`));
+        logger.info(chalk.red('═══════════════════════════════════════════════════════════'));
         
         errors.forEach((error, index) => {
-          console.log('\n');
-          console.log(chalk.red(`─────────────── Error ${index + 1} of ${errors.length} ───────────────`));
-          console.log(chalk.yellow(`📁 File: ${chalk.bold(error.file)}`));
-          console.log(chalk.yellow(`📦 Chunk: ${chalk.bold(error.chunkIndex.toString())} of ${chalk.bold(error.totalChunks.toString())}`));
-          console.log(chalk.yellow(`❗ Error: ${chalk.bold(error.error)}`));
+          logger.info('\n');
+          logger.info(chalk.red(`─────────────── Error ${index + 1} of ${errors.length} ───────────────`));
+          logger.info(chalk.yellow(`📁 File: ${chalk.bold(error.file)}`));
+          logger.info(chalk.yellow(`📦 Chunk: ${chalk.bold(error.chunkIndex.toString())} of ${chalk.bold(error.totalChunks.toString())}`));
+          logger.info(chalk.yellow(`❗ Error: ${chalk.bold(error.error)}`));
+          if (error.problems) {
+            error.problems.forEach((problem) => logger.info(chalk.yellow(`   • ${problem}`)));
+          }
+          if (error.missingKeys) {
+            logger.info(chalk.yellow(`🔑 Missing keys: ${chalk.bold(error.missingKeys.join(", "))}`));
+          }
           
-          console.log('\n' + chalk.cyan('📤 Sent to API:'));
-          console.log(chalk.gray('Prompt:'));
-          console.log(chalk.gray(error.sentToApi.prompt.substring(0, 200) + (error.sentToApi.prompt.length > 200 ? '...' : '')));
-          console.log(chalk.gray('\nChunk data:'));
-          console.log(chalk.gray(JSON.stringify(error.sentToApi.chunk, null, 2)));
+          logger.info('\n' + chalk.cyan('📤 Sent to API:'));
+          logger.info(chalk.gray('Prompt:'));
+          logger.info(chalk.gray(error.sentToApi.prompt.substring(0, 200) + (error.sentToApi.prompt.length > 200 ? '...' : '')));
+          logger.info(chalk.gray('\nChunk data:'));
+          logger.info(chalk.gray(JSON.stringify(error.sentToApi.chunk, null, 2)));
           
           if (error.receivedFromApi) {
-            console.log('\n' + chalk.cyan('📥 Received from API:'));
-            console.log(chalk.gray(error.receivedFromApi.substring(0, 500) + (error.receivedFromApi.length > 500 ? '...' : '')));
+            logger.info('\n' + chalk.cyan('📥 Received from API:'));
+            logger.info(chalk.gray(error.receivedFromApi.substring(0, 500) + (error.receivedFromApi.length > 500 ? '...' : '')));
           } else {
-            console.log('\n' + chalk.cyan('📥 Received from API:'));
-            console.log(chalk.gray('(No response received)'));
+            logger.info('\n' + chalk.cyan('📥 Received from API:'));
+            logger.info(chalk.gray('(No response received)'));
           }
           
           if (error.rawError) {
-            console.log('\n' + chalk.cyan('🔍 Raw Error Details:'));
-            console.log(chalk.gray(error.rawError instanceof Error ? error.rawError.message : String(error.rawError)));
+            logger.info('\n' + chalk.cyan('🔍 Raw Error Details:'));
+            logger.info(chalk.gray(error.rawError instanceof Error ? error.rawError.message : String(error.rawError)));
             if (error.rawError instanceof Error && error.rawError.stack) {
-              console.log(chalk.gray('Stack trace:'));
-              console.log(chalk.gray(error.rawError.stack));
+              logger.info(chalk.gray('Stack trace:'));
+              logger.info(chalk.gray(error.rawError.stack));
             }
           }
         });
         
-        console.log('\n');
-        console.log(chalk.red('═══════════════════════════════════════════════════════════'));
-      } else {
-        console.log('\n');
-        console.log(chalk.green('✅ All translations completed successfully with no errors!'));
+        logger.info('\n');
+        logger.info(chalk.red('═══════════════════════════════════════════════════════════'));
+      } else if (Object.keys(writeErrors).length === 0) {
+        logger.info('\n');
+        logger.info(chalk.green('✅ All translations completed successfully with no errors!'));
       }
+
+      return {
+        success: errors.length === 0 && Object.keys(writeErrors).length === 0,
+        files: outputFiles.map((file) => createFileResult(file, !(file in writeErrors) && !plans[file].isSource)),
+        errors,
+        plan,
+        usage,
+        durationMs: Date.now() - runStartedAt,
+      };
     } catch (error: any) {
-      console.error(chalk.red(`❌ Error: ${error.message}`));
+      // Errors that stop the whole run (unreadable source file, missing target file, ...) reject
+      logger.error(chalk.red(`❌ Error: ${error.message}`));
+      throw error;
     }
   };
 
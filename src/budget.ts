@@ -0,0 +1,89 @@
+import type { TokenUsage } from "./providers.js";
+
+// USD per million tokens, e.g. `{ inputPerMillion: 2.5, outputPerMillion: 10 }`
+export type Pricing = {
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+export type UsageReport = TokenUsage & {
+  // Set when `pricing` is configured
+  cost?: number;
+};
+
+// Thrown instead of calling the API when the request could go over `maxTokens` or `maxCost`
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export const emptyUsage = (): TokenUsage => ({ promptTokens: 0, completionTokens: 0 });
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+});
+
+export const costOf = ({ promptTokens, completionTokens }: TokenUsage, { inputPerMillion, outputPerMillion }: Pricing) =>
+  (promptTokens * inputPerMillion + completionTokens * outputPerMillion) / 1000000;
+
+export const createUsageReport = (usage: TokenUsage, pricing?: Pricing): UsageReport =>
+  pricing ? { ...usage, cost: costOf(usage, pricing) } : { ...usage };
+
+/**
+ * Tracks the tokens of a run. Every request reserves its estimate before it is sent, so parallel
+ * requests cannot go over the limits together; the reservation is replaced by the reported usage
+ * (or kept when the provider does not report any). A request that only misses the limits because
+ * of requests in flight waits for them instead of being refused.
+ */
+export const createBudget = ({ maxTokens, maxCost, pricing }: { maxTokens?: number; maxCost?: number; pricing?: Pricing }) => {
+  if (maxCost !== undefined && !pricing) {
+    throw new Error("`maxCost` needs `pricing` to calculate the cost of requests");
+  }
+  let used = emptyUsage();
+  let reserved = emptyUsage();
+  // Once a request was refused, the run stops sending new ones
+  let exceeded: BudgetExceededError | undefined;
+  // Requests waiting for reservations to settle
+  let waiting: (() => void)[] = [];
+
+  const exceedsLimits = (total: TokenUsage) => {
+    const tokens = total.promptTokens + total.completionTokens;
+    if (maxTokens !== undefined && tokens > maxTokens) {
+      return `Token budget of ${maxTokens} would be exceeded (${tokens} tokens with the next request)`;
+    }
+    if (maxCost !== undefined && pricing && costOf(total, pricing) > maxCost) {
+      return `Cost budget of $${maxCost} would be exceeded ($${costOf(total, pricing).toFixed(4)} with the next request)`;
+    }
+    return undefined;
+  };
+
+  return {
+    reserve: async (estimate: TokenUsage) => {
+      for (;;) {
+        if (exceeded) {
+          throw exceeded;
+        }
+        const message = exceedsLimits(addUsage(used, estimate));
+        if (message) {
+          exceeded = new BudgetExceededError(message);
+          throw exceeded;
+        }
+        if (!exceedsLimits(addUsage(addUsage(used, reserved), estimate))) {
+          reserved = addUsage(reserved, estimate);
+          return;
+        }
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+    },
+    settle: (estimate: TokenUsage, usage: TokenUsage = estimate) => {
+      reserved = addUsage(reserved, { promptTokens: -estimate.promptTokens, completionTokens: -estimate.completionTokens });
+      used = addUsage(used, usage);
+      const resolvers = waiting;
+      waiting = [];
+      resolvers.forEach((resolve) => resolve());
+    },
+  };
+};
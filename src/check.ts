@@ -0,0 +1,256 @@
+import fs from "fs";
+import path from "path";
+import { FormatAdapter, FormatName, readCatalogFile } from "./formats/index.js";
+import { escapeXml } from "./formats/xml.js";
+import { localeFromFilename } from "./locale.js";
+import { createKeyMatcher, createLockStore, lockedKeyPatterns, LOCKS_FILE } from "./locks.js";
+import { addPluralVariants } from "./plurals.js";
+import { createTranslationState, STATE_FILE } from "./state.js";
+import { validateTranslation } from "./validation.js";
+
+export type CheckSeverity = "error" | "warning" | "info";
+
+export type CheckRule =
+  | "invalid-file"
+  | "missing-file"
+  | "missing-key"
+  | "extra-key"
+  | "empty-value"
+  | "identical-to-source"
+  | "placeholder-mismatch"
+  | "stale-key";
+
+export const DEFAULT_CHECK_RULES: Record<CheckRule, CheckSeverity> = {
+  "invalid-file": "error",
+  "missing-file": "error",
+  "missing-key": "error",
+  "extra-key": "warning",
+  "empty-value": "error",
+  "identical-to-source": "warning",
+  "placeholder-mismatch": "error",
+  "stale-key": "error",
+};
+
+const SEVERITY_ORDER: CheckSeverity[] = ["info", "warning", "error"];
+
+export type CheckIssue = {
+  file: string;
+  rule: CheckRule;
+  severity: CheckSeverity;
+  // Not set for issues of the whole file
+  key?: string;
+  message: string;
+};
+
+export type CheckOptions = {
+  sourceFile: string;
+  sourceDirectory: string;
+  outputFiles: string[];
+  outputDirectory: string;
+  keySeparator?: string;
+  format?: FormatName | FormatAdapter;
+  // Same as in `generateTranslations`, stale keys are only reported with it
+  stateFile?: boolean | string;
+  // Locked keys may keep the source text, see `generateTranslations`
+  lockedKeys?: Record<string, string[]>;
+  locksFile?: string;
+  // Severity by rule, "off" disables a rule
+  rules?: Partial<Record<CheckRule, CheckSeverity | "off">>;
+  // Key patterns (`brand.*`) whose translation may be the same as the source text
+  allowIdentical?: string[];
+  // Lowest severity that fails the check, "none" only reports
+  failOn?: CheckSeverity | "none";
+};
+
+export type FileCheck = {
+  file: string;
+  // False when the file is missing or cannot be parsed
+  valid: boolean;
+  issues: CheckIssue[];
+};
+
+export type CheckResult = {
+  // False when an issue has the `failOn` severity or a higher one
+  passed: boolean;
+  failOn: CheckSeverity | "none";
+  sourceKeys: number;
+  files: FileCheck[];
+  // Issues of the source file, e.g. invalid JSON
+  sourceIssues: CheckIssue[];
+  counts: Record<CheckSeverity, number>;
+};
+
+const failsAt = (severity: CheckSeverity, failOn: CheckSeverity | "none") =>
+  failOn !== "none" && SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(failOn);
+
+// Texts without letters (numbers, placeholders, punctuation) are the same in every language
+const hasLetters = (text: string) => /\p{L}/u.test(text.replace(/\{[^{}]*\}|%\S|<[^<>]*>/g, ""));
+
+const language = (locale?: string) => locale?.split(/[_-]/)[0].toLowerCase();
+
+/**
+ * Lints every output file against the source file without calling any API, e.g. in CI.
+ */
+export const checkTranslations = ({
+  sourceFile,
+  sourceDirectory,
+  outputFiles,
+  outputDirectory,
+  keySeparator = ".",
+  format,
+  stateFile = false,
+  lockedKeys = {},
+  locksFile,
+  rules = {},
+  allowIdentical = [],
+  failOn = "error",
+}: CheckOptions): CheckResult => {
+  const severities = { ...DEFAULT_CHECK_RULES, ...rules };
+  const createIssues = (file: string) => {
+    const issues: CheckIssue[] = [];
+    const report = (rule: CheckRule, message: string, key?: string) => {
+      const severity = severities[rule];
+      if (severity !== "off") {
+        issues.push({ file, rule, severity, ...(key !== undefined ? { key } : {}), message });
+      }
+    };
+    return { issues, report };
+  };
+  const createResult = (sourceKeys: number, files: FileCheck[], sourceIssues: CheckIssue[]): CheckResult => {
+    const all = [...sourceIssues, ...files.flatMap((file) => file.issues)];
+    return {
+      passed: !all.some((issue) => failsAt(issue.severity, failOn)),
+      failOn,
+      sourceKeys,
+      files,
+      sourceIssues,
+      counts: {
+        error: all.filter((issue) => issue.severity === "error").length,
+        warning: all.filter((issue) => issue.severity === "warning").length,
+        info: all.filter((issue) => issue.severity === "info").length,
+      },
+    };
+  };
+
+  let source: Record<string, string>;
+  try {
+    source = readCatalogFile(path.join(sourceDirectory, sourceFile), sourceFile, { keySeparator, format, isSource: true }).entries;
+  } catch (error: any) {
+    const { issues, report } = createIssues(sourceFile);
+    report("invalid-file", `Source file cannot be read: ${error.message}`);
+    return createResult(0, [], issues);
+  }
+
+  const state = stateFile
+    ? createTranslationState(typeof stateFile === "string" ? stateFile : path.join(outputDirectory, STATE_FILE))
+    : undefined;
+  const locks = createLockStore(locksFile ?? path.join(outputDirectory, LOCKS_FILE));
+  const sourceLanguage = language(localeFromFilename(sourceFile));
+
+  const files = outputFiles.map((file): FileCheck => {
+    const { issues, report } = createIssues(file);
+    const filePath = path.join(outputDirectory, file);
+    const locale = localeFromFilename(file);
+    if (!fs.existsSync(filePath)) {
+      report("missing-file", `Output file ${filePath} does not exist`);
+      return { file, valid: false, issues };
+    }
+
+    let entries: Record<string, string>;
+    try {
+      entries = readCatalogFile(filePath, file, { keySeparator, format }).entries;
+    } catch (error: any) {
+      report("invalid-file", `Output file cannot be parsed: ${error.message}`);
+      return { file, valid: false, issues };
+    }
+
+    const fileSource = addPluralVariants(source, locale).entries;
+    const reviewed = locks.lockedKeys(file);
+    const mayBeIdentical = createKeyMatcher([...allowIdentical, ...lockedKeyPatterns(lockedKeys, file, locale)]);
+    // Regional variants of the source language (en-GB for en) share most texts
+    const sameLanguage = sourceLanguage !== undefined && language(locale) === sourceLanguage;
+
+    Object.entries(fileSource).forEach(([key, sourceText]) => {
+      if (!(key in entries)) {
+        if (sourceText !== "") {
+          report("missing-key", "Key is missing", key);
+        }
+        return;
+      }
+      const translation = entries[key];
+      // Numbers, booleans and null are written as they are, there is no text to check
+      if (typeof sourceText !== "string") {
+        return;
+      }
+      if (sourceText.trim() !== "" && (typeof translation !== "string" || translation.trim() === "")) {
+        report("empty-value", "Translation is empty", key);
+        return;
+      }
+      if (
+        translation === sourceText &&
+        !sameLanguage &&
+        hasLetters(sourceText) &&
+        !(key in reviewed) &&
+        !mayBeIdentical(key)
+      ) {
+        report("identical-to-source", "Translation is the same as the source text", key);
+      }
+      const problems = validateTranslation(sourceText, translation);
+      if (problems.length > 0) {
+        report("placeholder-mismatch", problems.join("; "), key);
+      }
+    });
+
+    Object.keys(entries)
+      .filter((key) => !(key in fileSource))
+      .forEach((key) => report("extra-key", "Key is not in the source file", key));
+
+    state
+      ?.staleKeys(file, fileSource, reviewed)
+      .filter((key) => key in entries)
+      .forEach((key) => report("stale-key", "Source text changed since the key was translated", key));
+
+    return { file, valid: true, issues };
+  });
+
+  return createResult(Object.keys(source).length, files, []);
+};
+
+/**
+ * JUnit XML with a test suite per output file and a test case per issue, for CI test report views.
+ * Issues below `failOn` are passing test cases with the message as output.
+ */
+export const formatJunitReport = (result: CheckResult) => {
+  const suites = [
+    ...(result.sourceIssues.length > 0 ? [{ file: result.sourceIssues[0].file, issues: result.sourceIssues }] : []),
+    ...result.files,
+  ];
+  const isFailure = (issue: CheckIssue) => failsAt(issue.severity, result.failOn);
+  const testCase = (file: string, issue?: CheckIssue) => {
+    if (!issue) {
+      return `    <testcase classname="${escapeXml(file)}" name="consistent"></testcase>`;
+    }
+    const name = escapeXml(`${issue.rule}${issue.key !== undefined ? `: ${issue.key}` : ""}`);
+    const output = escapeXml(`[${issue.severity}] ${issue.message}`);
+    const body = isFailure(issue)
+      ? `<failure type="${issue.rule}" message="${escapeXml(issue.message)}">${output}</failure>`
+      : `<system-out>${output}</system-out>`;
+    return `    <testcase classname="${escapeXml(file)}" name="${name}">${body}</testcase>`;
+  };
+
+  const tests = suites.reduce((sum, { issues }) => sum + Math.max(issues.length, 1), 0);
+  const failures = suites.reduce((sum, { issues }) => sum + issues.filter(isFailure).length, 0);
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="ai-localization check" tests="${tests}" failures="${failures}">`,
+    ...suites.map(({ file, issues }) =>
+      [
+        `  <testsuite name="${escapeXml(file)}" tests="${Math.max(issues.length, 1)}" failures="${issues.filter(isFailure).length}">`,
+        ...(issues.length > 0 ? issues.map((issue) => testCase(file, issue)) : [testCase(file)]),
+        "  </testsuite>",
+      ].join("\n")
+    ),
+    "</testsuites>",
+    "",
+  ].join("\n");
+};
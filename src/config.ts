@@ -0,0 +1,210 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { GenerateTranslationsOptions } from "../index.js";
+import type { CheckOptions } from "./check.js";
+import type { ReviewOptions } from "./review.js";
+import {
+  createAssistantProvider,
+  createChatCompletionsProvider,
+  createOpenAiCompatibleProvider,
+  ResponseFormat,
+  TranslationProvider,
+} from "./providers.js";
+
+export const CONFIG_FILES = [
+  "ai-localization.config.ts",
+  "ai-localization.config.mts",
+  "ai-localization.config.mjs",
+  "ai-localization.config.js",
+  "ai-localization.config.json",
+];
+
+// Declarative provider settings for JSON configs, API keys are always read from the environment
+export type ProviderConfig =
+  | {
+      type: "assistant";
+      assistantId?: string;
+      apiKeyEnv?: string;
+      maxRetries?: number;
+    }
+  | {
+      type: "chat-completions";
+      model: string;
+      baseURL?: string;
+      temperature?: number;
+      responseFormat?: ResponseFormat;
+      apiKeyEnv?: string;
+      maxRetries?: number;
+    }
+  | {
+      type: "openai-compatible";
+      baseURL: string;
+      model: string;
+      temperature?: number;
+      responseFormat?: ResponseFormat;
+      apiKeyEnv?: string;
+      maxRetries?: number;
+    };
+
+export type LocalizationConfig = Omit<
+  GenerateTranslationsOptions,
+  "openAiApiKey" | "provider" | "extraContextByFilename" | "review"
+> & {
+  extraContextByFilename?: Record<string, string>;
+  // A provider object (JS/TS configs only) or declarative settings
+  provider?: TranslationProvider | ProviderConfig;
+  review?: Omit<ReviewOptions, "provider"> & { provider?: TranslationProvider | ProviderConfig };
+  // Rules of `ai-localization check`
+  check?: Pick<CheckOptions, "rules" | "allowIdentical" | "failOn">;
+};
+
+export class ConfigError extends Error {}
+
+// Typed helper for `ai-localization.config.ts`
+export const defineConfig = (config: LocalizationConfig) => config;
+
+export const findConfigFile = (directory: string) =>
+  CONFIG_FILES.map((file) => path.join(directory, file)).find((file) => fs.existsSync(file));
+
+const importConfig = async (configPath: string) => {
+  try {
+    const module = await import(pathToFileURL(configPath).href);
+    return module.default ?? module;
+  } catch (error: any) {
+    if (error?.code === "ERR_UNKNOWN_FILE_EXTENSION" && /\.m?ts$/.test(configPath)) {
+      throw new ConfigError(
+        `Node.js ${process.version} cannot load ${path.basename(configPath)}. ` +
+          "Use Node.js with TypeScript support (22.18+), run the CLI through tsx, or use a .mjs / .json config."
+      );
+    }
+    throw new ConfigError(`Failed to load ${configPath}: ${error.message}`);
+  }
+};
+
+/**
+ * Loads the config file and resolves its paths relative to the directory of the config.
+ * Without `configPath`, the first of `CONFIG_FILES` found in `cwd` is used.
+ */
+export const loadConfig = async (configPath?: string, cwd = process.cwd()): Promise<LocalizationConfig> => {
+  const resolvedPath = configPath ? path.resolve(cwd, configPath) : findConfigFile(cwd);
+  if (!resolvedPath) {
+    throw new ConfigError(`No config file found in ${cwd}, expected one of: ${CONFIG_FILES.join(", ")}`);
+  }
+  if (!fs.existsSync(resolvedPath)) {
+    throw new ConfigError(`Config file ${resolvedPath} does not exist`);
+  }
+
+  let config: any;
+  if (resolvedPath.endsWith(".json")) {
+    try {
+      config = JSON.parse(fs.readFileSync(resolvedPath, { encoding: "utf8" }));
+    } catch (error: any) {
+      throw new ConfigError(`Failed to parse ${resolvedPath}: ${error.message}`);
+    }
+  } else {
+    config = await importConfig(resolvedPath);
+  }
+
+  if (!config || typeof config !== "object") {
+    throw new ConfigError(`${resolvedPath} must export a config object`);
+  }
+  if (
+    "openAiApiKey" in config ||
+    (config.provider && "apiKey" in config.provider) ||
+    (config.review?.provider && "apiKey" in config.review.provider)
+  ) {
+    throw new ConfigError("API keys must not be stored in the config file, set the OPENAI_API_KEY environment variable instead");
+  }
+  const required = ["productContext", "sourceFile", "sourceDirectory", "outputFiles", "outputDirectory"];
+  const missing = required.filter((option) => config[option] === undefined);
+  if (missing.length > 0) {
+    throw new ConfigError(`${resolvedPath} is missing required options: ${missing.join(", ")}`);
+  }
+
+  const baseDirectory = path.dirname(resolvedPath);
+  return {
+    ...config,
+    sourceDirectory: path.resolve(baseDirectory, config.sourceDirectory),
+    outputDirectory: path.resolve(baseDirectory, config.outputDirectory),
+    translationMemory: typeof config.translationMemory === "string"
+      ? path.resolve(baseDirectory, config.translationMemory)
+      : config.translationMemory,
+    stateFile: typeof config.stateFile === "string"
+      ? path.resolve(baseDirectory, config.stateFile)
+      : config.stateFile,
+    contextFile: config.contextFile ? path.resolve(baseDirectory, config.contextFile) : undefined,
+    resume: typeof config.resume === "string" ? path.resolve(baseDirectory, config.resume) : config.resume,
+    locksFile: config.locksFile ? path.resolve(baseDirectory, config.locksFile) : undefined,
+    review: config.review?.reportDirectory
+      ? { ...config.review, reportDirectory: path.resolve(baseDirectory, config.review.reportDirectory) }
+      : config.review,
+  };
+};
+
+const readApiKey = (env: NodeJS.ProcessEnv, name = "OPENAI_API_KEY") => {
+  const apiKey = env[name];
+  if (!apiKey) {
+    throw new ConfigError(`The ${name} environment variable is not set`);
+  }
+  return apiKey;
+};
+
+/**
+ * Creates the provider described by the config. Defaults to the Assistants API with
+ * `OPENAI_API_KEY` and the `assistantId` option or `OPENAI_API_ASSISTANT_ID`.
+ */
+export const createProviderFromConfig = (
+  config: LocalizationConfig,
+  env: NodeJS.ProcessEnv = process.env
+): TranslationProvider => {
+  const provider = config.provider ?? { type: "assistant" };
+  if ("translate" in provider) {
+    return provider;
+  }
+
+  switch (provider.type) {
+    case "assistant": {
+      const assistantId = provider.assistantId ?? config.assistantId ?? env.OPENAI_API_ASSISTANT_ID;
+      if (!assistantId) {
+        throw new ConfigError("Set `assistantId` in the config or the OPENAI_API_ASSISTANT_ID environment variable");
+      }
+      return createAssistantProvider({
+        assistantId,
+        apiKey: readApiKey(env, provider.apiKeyEnv),
+        maxRetries: provider.maxRetries,
+      });
+    }
+    case "chat-completions":
+      return createChatCompletionsProvider({
+        model: provider.model,
+        baseURL: provider.baseURL,
+        temperature: provider.temperature,
+        responseFormat: provider.responseFormat,
+        maxRetries: provider.maxRetries,
+        apiKey: readApiKey(env, provider.apiKeyEnv),
+      });
+    case "openai-compatible":
+      return createOpenAiCompatibleProvider({
+        baseURL: provider.baseURL,
+        model: provider.model,
+        temperature: provider.temperature,
+        responseFormat: provider.responseFormat,
+        maxRetries: provider.maxRetries,
+        // Local servers usually do not need a key
+        apiKey: env[provider.apiKeyEnv ?? "OPENAI_API_KEY"] || undefined,
+      });
+    default:
+      throw new ConfigError(`Unknown provider type "${(provider as any).type}"`);
+  }
+};
+
+// Review options with the provider of `review.provider` created, the review uses the translation provider without it
+export const createReviewOptionsFromConfig = (
+  config: LocalizationConfig,
+  env: NodeJS.ProcessEnv = process.env
+): ReviewOptions | undefined =>
+  config.review && {
+    ...config.review,
+    provider: config.review.provider ? createProviderFromConfig({ ...config, provider: config.review.provider }, env) : undefined,
+  };
@@ -0,0 +1,105 @@
+import fs from "fs";
+import path from "path";
+import type { EntryMetadata } from "./formats/index.js";
+import { createKeyMatcher } from "./locks.js";
+
+export type KeyContext = {
+  // Where and how the text is used, e.g. "Button that opens a file"
+  description?: string;
+  // Maximum number of characters of the translation
+  maxLength?: number;
+};
+
+// `en.json` -> `en.context.json`
+export const contextFileName = (sourceFile: string) =>
+  `${path.basename(sourceFile, path.extname(sourceFile))}.context.json`;
+
+// Flat map of keys to a description or a `KeyContext`
+export const readContextFile = (filePath: string): Record<string, KeyContext> => {
+  let parsed: Record<string, string | KeyContext>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, { encoding: "utf8" }));
+  } catch (error: any) {
+    throw new Error(`Failed to read key context ${filePath}: ${error.message}`);
+  }
+  return Object.fromEntries(
+    Object.entries(parsed).map(([key, value]) => [key, typeof value === "string" ? { description: value } : value])
+  );
+};
+
+/**
+ * Combines the developer notes of the source file, the key pattern rules (`nav.*`) and the context
+ * file. Descriptions are joined, the last `maxLength` wins (context file over rules).
+ */
+export const resolveKeyContexts = ({
+  keys,
+  metadata = {},
+  rules = {},
+  contextFile = {},
+}: {
+  keys: string[];
+  metadata?: Record<string, EntryMetadata>;
+  rules?: Record<string, string | KeyContext>;
+  contextFile?: Record<string, KeyContext>;
+}): Record<string, KeyContext> => {
+  const matchers = Object.entries(rules).map(([pattern, rule]) => ({
+    matches: createKeyMatcher([pattern]),
+    context: typeof rule === "string" ? { description: rule } : rule,
+  }));
+
+  const contexts: Record<string, KeyContext> = {};
+  keys.forEach((key) => {
+    const { comments = [], context } = metadata[key] ?? {};
+    const layers = [
+      ...matchers.filter(({ matches }) => matches(key)).map(({ context }) => context),
+      ...(key in contextFile ? [contextFile[key]] : []),
+    ];
+    const descriptions = [...comments, ...(context ? [context] : []), ...layers.map(({ description }) => description)]
+      .filter((description): description is string => !!description);
+    const maxLength = layers.reduce<number | undefined>((max, layer) => layer.maxLength ?? max, undefined);
+
+    if (descriptions.length > 0 || maxLength !== undefined) {
+      contexts[key] = {
+        ...(descriptions.length > 0 ? { description: descriptions.join(". ") } : {}),
+        ...(maxLength !== undefined ? { maxLength } : {}),
+      };
+    }
+  });
+  return contexts;
+};
+
+// Prompt section with the context of the given keys (empty when there is none)
+export const formatKeyContexts = (contexts: Record<string, KeyContext>, keys: string[]) => {
+  const lines = keys
+    .filter((key) => key in contexts)
+    .map((key) => {
+      const { description, maxLength } = contexts[key];
+      const limit = maxLength !== undefined ? `at most ${maxLength} characters` : "";
+      return `- "${key}": ${[description, limit].filter(Boolean).join(", ")}`;
+    });
+
+  return lines.length > 0
+    ? `Context of individual keys (use it to pick the right meaning, do not translate it):\n${lines.join("\n")}`
+    : "";
+};
+
+// Translations longer than their `maxLength`, only keys with a violation are included
+export const checkMaxLength = (
+  contexts: Record<string, KeyContext>,
+  translations: Record<string, string>
+): Record<string, string[]> => {
+  const problemsByKey: Record<string, string[]> = {};
+
+  Object.entries(translations).forEach(([key, translation]) => {
+    const maxLength = contexts[key]?.maxLength;
+    if (maxLength === undefined || typeof translation !== "string") return;
+
+    // Code points, so emoji and other astral characters count once
+    const length = Array.from(translation).length;
+    if (length > maxLength) {
+      problemsByKey[key] = [`is ${length} characters long, it must have at most ${maxLength}`];
+    }
+  });
+
+  return problemsByKey;
+};
@@ -0,0 +1,61 @@
+import type { RetryReason } from "./providers.js";
+
+export type TranslationEvent =
+  | {
+      type: "file-start";
+      file: string;
+      keysToTranslate: number;
+      changedKeys: number;
+      missingKeys: number;
+      // Keys whose source text changed since they were translated, see `stateFile`
+      staleKeys: number;
+    }
+  | { type: "chunk-start"; file: string; chunkIndex: number; totalChunks: number; keys: number }
+  | {
+      type: "chunk-done";
+      file: string;
+      chunkIndex: number;
+      totalChunks: number;
+      translatedKeys: number;
+      durationMs: number;
+    }
+  | { type: "chunk-failed"; file: string; chunkIndex: number; totalChunks: number; error: string; durationMs: number }
+  | {
+      type: "rate-limit-wait";
+      file: string;
+      chunkIndex: number;
+      waitMs: number;
+      attempt: number;
+      maxRetries: number;
+      message: string;
+      // Despite the event name, timeouts, connection and 5xx errors are retried as well
+      reason: RetryReason;
+    }
+  | {
+      type: "review-done";
+      file: string;
+      reviewedKeys: number;
+      retranslatedKeys: number;
+      flaggedKeys: number;
+      averageScore?: number;
+    }
+  | { type: "file-written"; file: string; path: string; translatedKeys: number }
+  | { type: "file-failed"; file: string; path: string; error: string };
+
+export type Logger = {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+  error: (message: string) => void;
+};
+
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.log(message),
+  error: (message) => console.error(message),
+};
+
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
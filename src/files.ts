@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Writes to a temporary file next to the target and renames it, so readers (and a crash in the
+ * middle of the write) never see a partially written file.
+ */
+export const writeFileAtomic = (filePath: string, content: string) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+  );
+  try {
+    fs.writeFileSync(tempPath, content, { encoding: "utf8" });
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+};
+
+export type JsonStore<T> = {
+  // Read once, mutate it in place and call `touch`
+  data: T;
+  touch: () => void;
+  // Writes the data when it was touched, or deletes the file when `isEmpty` says so
+  save: () => void;
+};
+
+/**
+ * State file of the pipeline (translation memory, journal, locks, ...) that is read once and
+ * only written back when it changed.
+ */
+export const createJsonStore = <T>(
+  filePath: string,
+  description: string,
+  initial: T,
+  isEmpty?: (data: T) => boolean
+): JsonStore<T> => {
+  let data = initial;
+  if (fs.existsSync(filePath)) {
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, { encoding: "utf8" }));
+    } catch (error: any) {
+      throw new Error(`Failed to read ${description} ${filePath}: ${error.message}`);
+    }
+  }
+  let changed = false;
+
+  return {
+    data,
+    touch: () => {
+      changed = true;
+    },
+    save: () => {
+      if (!changed) {
+        return;
+      }
+      if (isEmpty?.(data)) {
+        fs.rmSync(filePath, { force: true });
+      } else {
+        writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+      }
+      changed = false;
+    },
+  };
+};
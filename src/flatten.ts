@@ -0,0 +1,64 @@
+export type NestedTranslations = {
+  [key: string]: string | NestedTranslations | NestedTranslations[] | string[];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object";
+
+// True when at least one value is an object or array (i18next / vue-i18n style files)
+export const isNestedObject = (obj: Record<string, unknown>) =>
+  Object.values(obj).some(isPlainObject);
+
+/**
+ * Flattens nested objects to dotted keys, e.g. `{ auth: { title: "Hi" } }` -> `{ "auth.title": "Hi" }`.
+ * Array items get their index as the key segment. Key order follows the original object.
+ */
+export const flattenObject = (
+  obj: Record<string, unknown>,
+  keySeparator = ".",
+  prefix = "",
+  result: Record<string, string> = {}
+): Record<string, string> => {
+  Object.entries(obj).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}${keySeparator}${key}` : key;
+    if (isPlainObject(value)) {
+      flattenObject(value, keySeparator, path, result);
+    } else {
+      result[path] = value as string;
+    }
+  });
+  return result;
+};
+
+// Objects whose keys are exactly 0..n-1 were arrays before flattening
+const restoreArrays = (value: unknown): unknown => {
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const keys = Object.keys(value);
+  const entries = keys.map((key) => [key, restoreArrays(value[key])] as const);
+  const isArray = keys.length > 0 && keys.every((key, index) => key === index.toString());
+  return isArray ? entries.map(([, item]) => item) : Object.fromEntries(entries);
+};
+
+/**
+ * Rebuilds the nested shape from dotted keys. Keys are inserted in the order of `flat`,
+ * so an existing file keeps its key order and new keys are appended to their parent object.
+ */
+export const unflattenObject = (flat: Record<string, string>, keySeparator = "."): NestedTranslations => {
+  const result: Record<string, unknown> = {};
+
+  Object.entries(flat).forEach(([path, value]) => {
+    const segments = path.split(keySeparator);
+    let current = result;
+    segments.slice(0, -1).forEach((segment) => {
+      if (!isPlainObject(current[segment])) {
+        current[segment] = {};
+      }
+      current = current[segment] as Record<string, unknown>;
+    });
+    current[segments[segments.length - 1]] = value;
+  });
+
+  return restoreArrays(result) as NestedTranslations;
+};
@@ -0,0 +1,125 @@
+import { EntryMetadata, findMetadata, FormatAdapter } from "./types.js";
+import { escapeInnerXml, formatAttributes, parseAttributes } from "./xml.js";
+
+type ResourceKind = "string" | "string-array" | "plurals";
+
+type Resource = {
+  kind: ResourceKind;
+  name: string;
+  attributes: Record<string, string>;
+  comments: string[];
+  value?: string;
+  // Array items are keyed by index, plural items by quantity
+  items: [string, string][];
+};
+
+const resourceRegex = /<!--([\s\S]*?)-->|<(string-array|plurals|string)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\2\s*>)/g;
+const itemRegex = /<item\b([^>]*?)(?:\/>|>([\s\S]*?)<\/item\s*>)/g;
+
+// Apostrophes, a bare `&` and `<` must be escaped in Android resources; markup inside the value is left alone
+const escapeValue = (value: string) =>
+  escapeInnerXml(value)
+    .split(/(<[^>]*>)/)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(/(?<!\\)'/g, "\\'")))
+    .join("");
+
+export const androidAdapter: FormatAdapter = {
+  name: "android",
+  extensions: [".xml"],
+  parse: (content, { keySeparator }) => {
+    const entries: Record<string, string> = {};
+    const metadata: Record<string, EntryMetadata> = {};
+    const resourcesTag = content.match(/<resources\b([^>]*)>/);
+    let comments: string[] = [];
+    let match: RegExpExecArray | null;
+
+    resourceRegex.lastIndex = 0;
+    while ((match = resourceRegex.exec(content))) {
+      const [, comment, kind, rawAttributes, inner = ""] = match;
+      if (comment !== undefined) {
+        comments.push(comment.trim());
+        continue;
+      }
+
+      const { name, ...attributes } = parseAttributes(rawAttributes);
+      const resourceComments = comments;
+      comments = [];
+
+      // Resources marked as translatable="false" must stay out of the translations
+      if (!name || attributes.translatable === "false") {
+        continue;
+      }
+
+      const extra = { kind, name, attributes };
+      if (kind === "string") {
+        entries[name] = inner;
+        metadata[name] = { comments: resourceComments, extra };
+        continue;
+      }
+
+      let itemMatch: RegExpExecArray | null;
+      let index = 0;
+      itemRegex.lastIndex = 0;
+      while ((itemMatch = itemRegex.exec(inner))) {
+        const item = kind === "plurals" ? parseAttributes(itemMatch[1]).quantity : (index++).toString();
+        const key = `${name}${keySeparator}${item}`;
+        entries[key] = itemMatch[2] ?? "";
+        metadata[key] = { comments: resourceComments, extra: { ...extra, item } };
+      }
+    }
+
+    return {
+      entries,
+      metadata,
+      file: { attributes: resourcesTag ? parseAttributes(resourcesTag[1]) : {} },
+    };
+  },
+  serialize: (entries, options) => {
+    const { keySeparator, previous, source } = options;
+    const resources = new Map<string, Resource>();
+
+    Object.entries(entries).forEach(([key, value]) => {
+      const { comments = [], extra } = findMetadata(key, options);
+      const separatorIndex = key.lastIndexOf(keySeparator);
+      const parent = separatorIndex > 0 ? resources.get(key.slice(0, separatorIndex)) : undefined;
+
+      if (extra?.kind && extra.kind !== "string") {
+        const resource: Resource = resources.get(extra.name) ?? {
+          kind: extra.kind,
+          name: extra.name,
+          attributes: extra.attributes,
+          comments,
+          items: [],
+        };
+        resource.items.push([extra.item, value]);
+        resources.set(extra.name, resource);
+      } else if (!extra && parent && parent.kind !== "string") {
+        // New items of a known array or plural (e.g. a plural form the source locale does not have)
+        parent.items.push([key.slice(separatorIndex + keySeparator.length), value]);
+      } else {
+        resources.set(key, { kind: "string", name: key, attributes: extra?.attributes ?? {}, comments, value, items: [] });
+      }
+    });
+
+    const attributes = previous?.file?.attributes ?? source?.file?.attributes ?? {};
+    const lines = ["<?xml version=\"1.0\" encoding=\"utf-8\"?>", `<resources${formatAttributes(attributes)}>`];
+
+    resources.forEach(({ kind, name, attributes, comments, value, items }) => {
+      comments.forEach((comment) => lines.push(`    <!-- ${comment} -->`));
+      const attributesString = formatAttributes({ name, ...attributes });
+      if (kind === "string") {
+        lines.push(`    <${kind}${attributesString}>${escapeValue(value ?? "")}</${kind}>`);
+        return;
+      }
+      lines.push(`    <${kind}${attributesString}>`);
+      items.forEach(([item, itemValue]) => {
+        const itemAttributes = kind === "plurals" ? formatAttributes({ quantity: item }) : "";
+        lines.push(`        <item${itemAttributes}>${escapeValue(itemValue)}</item>`);
+      });
+      lines.push(`    </${kind}>`);
+    });
+
+    lines.push("</resources>");
+    return lines.join("\n") + "\n";
+  },
+};
@@ -0,0 +1,46 @@
+import { EntryMetadata, findMetadata, FormatAdapter } from "./types.js";
+
+// Flutter Application Resource Bundle: flat JSON with `@key` metadata and `@@locale` globals
+export const arbAdapter: FormatAdapter = {
+  name: "arb",
+  extensions: [".arb"],
+  parse: (content) => {
+    const parsed: Record<string, unknown> = JSON.parse(content);
+    const entries: Record<string, string> = {};
+    const metadata: Record<string, EntryMetadata> = {};
+    const globals: Record<string, unknown> = {};
+
+    Object.entries(parsed).forEach(([key, value]) => {
+      if (key.startsWith("@@")) {
+        globals[key] = value;
+      } else if (key.startsWith("@")) {
+        const attributes = value as Record<string, unknown>;
+        metadata[key.slice(1)] = {
+          comments: typeof attributes?.description === "string" ? [attributes.description] : undefined,
+          extra: { attributes },
+        };
+      } else if (typeof value === "string") {
+        entries[key] = value;
+      }
+    });
+
+    return { entries, metadata, file: { globals } };
+  },
+  serialize: (entries, options) => {
+    const { locale, previous } = options;
+    const output: Record<string, unknown> = {
+      ...(previous?.file?.globals ?? {}),
+      ...(locale ? { "@@locale": locale } : {}),
+    };
+
+    Object.entries(entries).forEach(([key, value]) => {
+      output[key] = value;
+      const attributes = findMetadata(key, options).extra?.attributes;
+      if (attributes) {
+        output[`@${key}`] = attributes;
+      }
+    });
+
+    return JSON.stringify(output, null, 2);
+  },
+};
@@ -0,0 +1,58 @@
+import fs from "fs";
+import path from "path";
+import { localeFromFilename } from "../locale.js";
+import { androidAdapter } from "./android.js";
+import { arbAdapter } from "./arb.js";
+import { jsonAdapter } from "./json.js";
+import { poAdapter } from "./po.js";
+import { stringsAdapter } from "./strings.js";
+import { FormatAdapter } from "./types.js";
+import { xliffAdapter } from "./xliff.js";
+import { yamlAdapter } from "./yaml.js";
+
+export const formatAdapters = {
+  json: jsonAdapter,
+  yaml: yamlAdapter,
+  po: poAdapter,
+  xliff: xliffAdapter,
+  android: androidAdapter,
+  strings: stringsAdapter,
+  arb: arbAdapter,
+};
+
+export type FormatName = keyof typeof formatAdapters;
+
+/**
+ * Picks the adapter for a file: an explicit format (name or custom adapter) wins,
+ * otherwise the extension decides. Unknown extensions are read as JSON.
+ */
+export const getFormatAdapter = (file: string, format?: FormatName | FormatAdapter): FormatAdapter => {
+  if (typeof format === "object") {
+    return format;
+  }
+  if (format) {
+    const adapter = formatAdapters[format];
+    if (!adapter) {
+      throw new Error(`Unknown format: ${format}. Supported formats: ${Object.keys(formatAdapters).join(", ")}`);
+    }
+    return adapter;
+  }
+
+  const extension = path.extname(file).toLowerCase();
+  return Object.values(formatAdapters).find((adapter) => adapter.extensions.includes(extension)) ?? jsonAdapter;
+};
+
+// Reads and parses a localization file, the locale is taken from the file name
+export const readCatalogFile = (
+  filePath: string,
+  file: string,
+  { keySeparator = ".", format, isSource }: { keySeparator?: string; format?: FormatName | FormatAdapter; isSource?: boolean } = {}
+) =>
+  getFormatAdapter(file, format).parse(fs.readFileSync(filePath, { encoding: "utf8" }), {
+    keySeparator,
+    locale: localeFromFilename(file),
+    isSource,
+  });
+
+export { sortBySourceOrder } from "./types.js";
+export type { EntryMetadata, FormatAdapter, LocaleCatalog, ParseOptions, SerializeOptions } from "./types.js";
@@ -0,0 +1,22 @@
+import { flattenObject, isNestedObject, unflattenObject } from "../flatten.js";
+import { FormatAdapter } from "./types.js";
+
+export const jsonAdapter: FormatAdapter = {
+  name: "json",
+  extensions: [".json"],
+  parse: (content, { keySeparator }) => {
+    const parsed = JSON.parse(content);
+    const nested = isNestedObject(parsed);
+    return {
+      // Nested files are flattened to dotted keys and written back nested
+      entries: nested ? flattenObject(parsed, keySeparator) : parsed,
+      metadata: {},
+      file: { nested },
+    };
+  },
+  serialize: (entries, { keySeparator, nested, source, previous }) => {
+    const writeNested = nested ?? source?.file?.nested ?? previous?.file?.nested ?? false;
+    const output = writeNested ? unflattenObject(entries, keySeparator) : entries;
+    return JSON.stringify(output, null, 2);
+  },
+};
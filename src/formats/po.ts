@@ -0,0 +1,196 @@
+import { EntryMetadata, findMetadata, FormatAdapter, outputKeys } from "./types.js";
+
+// gettext joins msgctxt and msgid with EOT, the same is used for our keys
+const CONTEXT_SEPARATOR = "\u0004";
+const PLURAL_KEY = /^(.*)\[(\d+)\]$/s;
+
+type PoEntry = {
+  translatorComments: string[];
+  extractedComments: string[];
+  references: string[];
+  flags: string[];
+  msgctxt?: string;
+  msgid?: string;
+  msgidPlural?: string;
+  msgstr: Record<number, string>;
+};
+
+const unescapePo = (value: string) =>
+  value.replace(/\\(.)/g, (_, escaped: string) => {
+    switch (escaped) {
+      case "n": return "\n";
+      case "t": return "\t";
+      case "r": return "\r";
+      default: return escaped;
+    }
+  });
+
+const escapePo = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, "\\\"")
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n");
+
+// Multi-line strings are written the way msgmerge does: an empty first line, then one line per "\n"
+const formatField = (keyword: string, value: string, multiline = false) => {
+  const lines = value.split(/(?<=\n)/);
+  if (lines.length <= 1 && !multiline) {
+    return [`${keyword} "${escapePo(value)}"`];
+  }
+  return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)];
+};
+
+const parseBlock = (block: string): PoEntry | null => {
+  const entry: PoEntry = { translatorComments: [], extractedComments: [], references: [], flags: [], msgstr: {} };
+  let field: ((value: string) => void) | null = null;
+
+  for (const line of block.split(/\r?\n/).map((line) => line.trim())) {
+    if (line.startsWith("#~")) {
+      // Obsolete entries are kept by the caller as they are
+      return null;
+    } else if (line.startsWith("#.")) {
+      entry.extractedComments.push(line.slice(2).trim());
+    } else if (line.startsWith("#:")) {
+      entry.references.push(line.slice(2).trim());
+    } else if (line.startsWith("#,")) {
+      entry.flags.push(...line.slice(2).split(",").map((flag) => flag.trim()).filter(Boolean));
+    } else if (line.startsWith("#|")) {
+      continue;
+    } else if (line.startsWith("#")) {
+      entry.translatorComments.push(line.slice(1).trim());
+    } else {
+      const match = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/);
+      const continuation = line.match(/^"(.*)"$/);
+      if (match) {
+        const [, keyword, pluralIndex, value] = match;
+        const index = pluralIndex ? parseInt(pluralIndex, 10) : 0;
+        field = {
+          msgctxt: (text: string) => { entry.msgctxt = (entry.msgctxt ?? "") + text; },
+          msgid: (text: string) => { entry.msgid = (entry.msgid ?? "") + text; },
+          msgid_plural: (text: string) => { entry.msgidPlural = (entry.msgidPlural ?? "") + text; },
+        }[keyword] ?? ((text: string) => { entry.msgstr[index] = (entry.msgstr[index] ?? "") + text; });
+        field(unescapePo(value));
+      } else if (continuation && field) {
+        field(unescapePo(continuation[1]));
+      }
+    }
+  }
+
+  return entry.msgid === undefined ? null : entry;
+};
+
+const entryKey = ({ msgctxt, msgid }: { msgctxt?: string; msgid?: string }) =>
+  msgctxt !== undefined ? `${msgctxt}${CONTEXT_SEPARATOR}${msgid}` : msgid ?? "";
+
+const setHeaderField = (header: string, name: string, value: string) => {
+  const line = `${name}: ${value}\n`;
+  const fieldRegex = new RegExp(`^${name}:.*\\n?`, "m");
+  return fieldRegex.test(header) ? header.replace(fieldRegex, line) : `${header}${line}`;
+};
+
+// gettext PO: msgid is the key (prefixed with msgctxt when present), plural forms become `key[0]`, `key[1]`, ...
+export const poAdapter: FormatAdapter = {
+  name: "po",
+  extensions: [".po", ".pot"],
+  parse: (content, { isSource }) => {
+    const entries: Record<string, string> = {};
+    const metadata: Record<string, EntryMetadata> = {};
+    const obsolete: string[] = [];
+    let header: PoEntry | undefined;
+
+    content.split(/\r?\n\s*\r?\n/).map((block) => block.trim()).filter(Boolean).forEach((block) => {
+      const entry = parseBlock(block);
+      if (!entry) {
+        if (/^#~/m.test(block)) {
+          obsolete.push(block);
+        }
+        return;
+      }
+      if (entry.msgid === "" && entry.msgctxt === undefined) {
+        header = entry;
+        return;
+      }
+
+      const key = entryKey(entry);
+      const forms = entry.msgidPlural !== undefined
+        ? Object.keys({ 0: "", 1: "", ...entry.msgstr }).map((index) => parseInt(index, 10))
+        : [undefined];
+
+      forms.forEach((index) => {
+        const formKey = index === undefined ? key : `${key}[${index}]`;
+        const sourceText = index ? entry.msgidPlural! : entry.msgid!;
+        const value = entry.msgstr[index ?? 0] || (isSource ? sourceText : "");
+        if (value) {
+          entries[formKey] = value;
+        }
+        metadata[formKey] = {
+          comments: entry.extractedComments,
+          context: entry.msgctxt,
+          extra: { ...entry, msgstr: undefined, pluralIndex: index },
+        };
+      });
+    });
+
+    return { entries, metadata, file: { header, obsolete } };
+  },
+  serialize: (entries, options) => {
+    const { locale, previous, source } = options;
+    const headerEntry: PoEntry | undefined = previous?.file?.header ?? source?.file?.header;
+    let headerText = headerEntry?.msgstr[0] ?? "Content-Type: text/plain; charset=UTF-8\n";
+    if (locale) {
+      headerText = setHeaderField(headerText, "Language", locale);
+    }
+
+    const blocks: string[][] = [[
+      ...(headerEntry?.translatorComments ?? []).map((comment) => `# ${comment}`.trimEnd()),
+      ...(headerEntry?.flags.length ? [`#, ${headerEntry.flags.join(", ")}`] : []),
+      ...formatField("msgid", ""),
+      ...formatField("msgstr", headerText, true),
+    ]];
+
+    // Plural forms of one message are collected into a single block
+    const messages = new Map<string, { extra: Record<string, any>; forms: [number | undefined, string][] }>();
+    outputKeys(entries, options).forEach((key) => {
+      const value = entries[key] ?? "";
+      const { extra } = findMetadata(key, options);
+      const pluralMatch = key.match(PLURAL_KEY);
+      const pluralIndex: number | undefined = extra ? extra.pluralIndex : pluralMatch ? parseInt(pluralMatch[2], 10) : undefined;
+      const messageKey = pluralIndex !== undefined && pluralMatch ? pluralMatch[1] : key;
+      const [msgctxt, msgid] = messageKey.includes(CONTEXT_SEPARATOR)
+        ? messageKey.split(CONTEXT_SEPARATOR)
+        : [undefined, messageKey];
+
+      const message = messages.get(messageKey) ?? {
+        extra: extra ?? findMetadata(`${messageKey}[0]`, options).extra ?? { msgctxt, msgid },
+        forms: [],
+      };
+      message.forms.push([pluralIndex, value]);
+      messages.set(messageKey, message);
+    });
+
+    messages.forEach(({ extra, forms }) => {
+      const lines = [
+        ...(extra.translatorComments ?? []).map((comment: string) => `# ${comment}`.trimEnd()),
+        ...(extra.extractedComments ?? []).map((comment: string) => `#. ${comment}`),
+        ...(extra.references ?? []).map((reference: string) => `#: ${reference}`),
+        ...(extra.flags?.length ? [`#, ${extra.flags.join(", ")}`] : []),
+        ...(extra.msgctxt !== undefined ? formatField("msgctxt", extra.msgctxt) : []),
+        ...formatField("msgid", extra.msgid ?? ""),
+      ];
+      if (extra.msgidPlural !== undefined || forms.some(([index]) => index !== undefined)) {
+        lines.push(...formatField("msgid_plural", extra.msgidPlural ?? extra.msgid ?? ""));
+        forms
+          .sort(([a = 0], [b = 0]) => a - b)
+          .forEach(([index = 0, value]) => lines.push(...formatField(`msgstr[${index}]`, value)));
+      } else {
+        lines.push(...formatField("msgstr", forms[0][1]));
+      }
+      blocks.push(lines);
+    });
+
+    const obsolete: string[] = previous?.file?.obsolete ?? [];
+    return [...blocks.map((lines) => lines.join("\n")), ...obsolete].join("\n\n") + "\n";
+  },
+};
@@ -0,0 +1,62 @@
+import { EntryMetadata, findMetadata, FormatAdapter } from "./types.js";
+
+const unescapeString = (value: string) =>
+  value.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) => {
+    if (escaped.length === 5) {
+      return String.fromCharCode(parseInt(escaped.slice(1), 16));
+    }
+    switch (escaped) {
+      case "n": return "\n";
+      case "t": return "\t";
+      case "r": return "\r";
+      default: return escaped;
+    }
+  });
+
+const escapeString = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, "\\\"")
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r");
+
+// iOS / macOS Localizable.strings: `/* comment */ "key" = "value";`
+export const stringsAdapter: FormatAdapter = {
+  name: "strings",
+  extensions: [".strings"],
+  parse: (content) => {
+    const entries: Record<string, string> = {};
+    const metadata: Record<string, EntryMetadata> = {};
+    const tokenRegex = /\/\*([\s\S]*?)\*\/|\/\/([^\n]*)|("(?:[^"\\]|\\.)*"|[\w.-]+)\s*=\s*("(?:[^"\\]|\\.)*")\s*;/g;
+    let comments: string[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenRegex.exec(content))) {
+      const [, blockComment, lineComment, rawKey, rawValue] = match;
+      if (blockComment !== undefined || lineComment !== undefined) {
+        comments.push((blockComment ?? lineComment).trim());
+        continue;
+      }
+
+      const key = rawKey.startsWith("\"") ? unescapeString(rawKey.slice(1, -1)) : rawKey;
+      entries[key] = unescapeString(rawValue.slice(1, -1));
+      if (comments.length > 0) {
+        metadata[key] = { comments };
+      }
+      comments = [];
+    }
+
+    return { entries, metadata };
+  },
+  serialize: (entries, options) => {
+    const blocks = Object.entries(entries).map(([key, value]) => {
+      const { comments = [] } = findMetadata(key, options);
+      const lines = comments.map((comment) => `/* ${comment} */`);
+      lines.push(`"${escapeString(key)}" = "${escapeString(value)}";`);
+      return lines.join("\n");
+    });
+
+    return blocks.join("\n\n") + "\n";
+  },
+};
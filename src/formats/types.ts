@@ -0,0 +1,71 @@
+export type EntryMetadata = {
+  // Developer notes (PO `#.` comments, ARB descriptions, XLIFF notes, XML / .strings / YAML comments)
+  comments?: string[];
+  // Disambiguating context (PO msgctxt)
+  context?: string;
+  // Anything else the adapter needs to write the entry back
+  extra?: Record<string, any>;
+};
+
+export type LocaleCatalog = {
+  // Flat key/value pairs, the only thing the translation pipeline works with
+  entries: Record<string, string>;
+  metadata: Record<string, EntryMetadata>;
+  // Adapter specific file level data (PO header, YAML document, XLIFF languages, ...)
+  file?: any;
+};
+
+export type ParseOptions = {
+  keySeparator: string;
+  locale?: string;
+  // Source catalogs may fall back to source texts (PO msgid, XLIFF <source>) for empty translations
+  isSource?: boolean;
+};
+
+export type SerializeOptions = {
+  keySeparator: string;
+  locale?: string;
+  // Parsed source file, used for metadata of entries the target file does not have yet
+  source?: LocaleCatalog;
+  // Parsed target file before the update, if it existed
+  previous?: LocaleCatalog;
+  // Forces nested / flat output for formats that support both
+  nested?: boolean;
+  // Writes keys in the order of the source file instead of keeping the order of the existing file
+  sourceOrder?: boolean;
+  // Drops keys of the existing file that are not in the source file (including untranslated ones)
+  prune?: boolean;
+};
+
+export type FormatAdapter = {
+  name: string;
+  extensions: string[];
+  parse: (content: string, options: ParseOptions) => LocaleCatalog;
+  serialize: (entries: Record<string, string>, options: SerializeOptions) => string;
+};
+
+// Metadata of the target file wins, the source file fills in entries the target does not have yet
+export const findMetadata = (key: string, { previous, source }: SerializeOptions): EntryMetadata =>
+  previous?.metadata[key] ?? source?.metadata[key] ?? {};
+
+// Stable sort by position in the source file, keys the source does not have keep their order at the end
+export const sortBySourceOrder = (keys: string[], sourceKeys: string[]) => {
+  const positions = new Map(sourceKeys.map((key, index) => [key, index]));
+  return keys
+    .map((key, index) => ({ key, index, position: positions.get(key) ?? sourceKeys.length }))
+    .sort((a, b) => a.position - b.position || a.index - b.index)
+    .map(({ key }) => key);
+};
+
+// Keys in output order: entries of the existing file first (including untranslated ones, which
+// some formats keep with an empty value), then the new ones
+export const outputKeys = (entries: Record<string, string>, { previous, source, sourceOrder, prune }: SerializeOptions) => {
+  const previousKeys = Object.keys(previous?.metadata ?? {}).filter(
+    (key) => key in entries || !(key in (previous?.entries ?? {}))
+  );
+  let keys = Array.from(new Set([...previousKeys, ...Object.keys(entries)]));
+  if (source && prune) {
+    keys = keys.filter((key) => key in source.entries || key in entries);
+  }
+  return source && sourceOrder ? sortBySourceOrder(keys, Object.keys(source.entries)) : keys;
+};
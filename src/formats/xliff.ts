@@ -0,0 +1,120 @@
+import { EntryMetadata, findMetadata, FormatAdapter, outputKeys } from "./types.js";
+import { escapeInnerXml, escapeXml, formatAttributes, parseAttributes, unescapeXml } from "./xml.js";
+
+const DEFAULT_FILE_ID = "f1";
+
+type Unit = {
+  id: string;
+  attributes: Record<string, string>;
+  notes: string[];
+  source: string;
+  target?: string;
+};
+
+const matchAll = (regex: RegExp, content: string) => {
+  const matches: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content))) {
+    matches.push(match);
+  }
+  return matches;
+};
+
+const elementContent = (name: string, content: string) => {
+  const match = content.match(new RegExp(`<${name}\\b[^>]*?(?:\\/>|>([\\s\\S]*?)<\\/${name}\\s*>)`));
+  return match ? match[1] ?? "" : undefined;
+};
+
+// XLIFF 2.0: one `<unit>` per key with the source text, the translation and translator notes
+export const xliffAdapter: FormatAdapter = {
+  name: "xliff",
+  extensions: [".xlf", ".xliff"],
+  parse: (content, { isSource }) => {
+    const rootTag = content.match(/<xliff\b([^>]*)>/);
+    const rootAttributes = rootTag ? parseAttributes(rootTag[1]) : {};
+    const sources: Record<string, string> = {};
+    const targets: Record<string, string> = {};
+    const metadata: Record<string, EntryMetadata> = {};
+
+    matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file\s*>/g, content).forEach(([, fileAttributes, fileContent]) => {
+      const fileId = parseAttributes(fileAttributes).id ?? DEFAULT_FILE_ID;
+
+      matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit\s*>/g, fileContent).forEach(([, unitAttributes, unitContent]) => {
+        const { id, ...attributes } = parseAttributes(unitAttributes);
+        if (!id) {
+          return;
+        }
+
+        const notes = matchAll(/<note\b[^>]*>([\s\S]*?)<\/note\s*>/g, unitContent).map(([, note]) => unescapeXml(note.trim()));
+        const segments = matchAll(/<segment\b[^>]*>([\s\S]*?)<\/segment\s*>/g, unitContent).map(([, segment]) => ({
+          source: elementContent("source", segment) ?? "",
+          target: elementContent("target", segment),
+        }));
+
+        sources[id] = segments.map(({ source }) => source).join("");
+        if (segments.some(({ target }) => target !== undefined)) {
+          targets[id] = segments.map(({ target }) => target ?? "").join("");
+        }
+        metadata[id] = { comments: notes, extra: { fileId, attributes, source: sources[id] } };
+      });
+    });
+
+    return {
+      entries: isSource ? sources : targets,
+      metadata,
+      file: { attributes: rootAttributes },
+    };
+  },
+  serialize: (entries, options) => {
+    const { locale, previous, source } = options;
+    const files = new Map<string, Unit[]>();
+
+    outputKeys(entries, options).forEach((id) => {
+      const target = entries[id];
+      const { comments = [], extra } = findMetadata(id, options);
+      const fileId = extra?.fileId ?? DEFAULT_FILE_ID;
+      const units = files.get(fileId) ?? [];
+      units.push({
+        id,
+        attributes: extra?.attributes ?? {},
+        notes: comments,
+        source: source?.entries[id] ?? extra?.source ?? "",
+        target,
+      });
+      files.set(fileId, units);
+    });
+
+    const rootAttributes: Record<string, string> = {
+      xmlns: "urn:oasis:names:tc:xliff:document:2.0",
+      version: "2.0",
+      srcLang: "en",
+      ...(source?.file?.attributes ?? {}),
+      ...(previous?.file?.attributes ?? {}),
+      ...(locale ? { trgLang: locale } : {}),
+    };
+
+    const lines = ["<?xml version=\"1.0\" encoding=\"UTF-8\"?>", `<xliff${formatAttributes(rootAttributes)}>`];
+    files.forEach((units, fileId) => {
+      lines.push(`  <file${formatAttributes({ id: fileId })}>`);
+      units.forEach(({ id, attributes, notes, source: sourceText, target }) => {
+        lines.push(`    <unit${formatAttributes({ id, ...attributes })}>`);
+        if (notes.length > 0) {
+          lines.push("      <notes>");
+          notes.forEach((note) => lines.push(`        <note>${escapeXml(note)}</note>`));
+          lines.push("      </notes>");
+        }
+        lines.push("      <segment>");
+        lines.push(`        <source>${escapeInnerXml(sourceText)}</source>`);
+        if (target !== undefined) {
+          lines.push(`        <target>${escapeInnerXml(target)}</target>`);
+        }
+        lines.push("      </segment>");
+        lines.push("    </unit>");
+      });
+      lines.push("  </file>");
+    });
+    lines.push("</xliff>");
+
+    return lines.join("\n") + "\n";
+  },
+};
@@ -0,0 +1,39 @@
+// Minimal helpers for the XML based formats. Element contents are kept as raw inner XML,
+// so inline markup (`<b>`, `<xliff:g>`, `<ph/>`) reaches the model and the file untouched.
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Escapes a bare `&` and a `<` that does not start a tag in raw inner XML, entities and inline
+// markup stay as they are (a model may answer `AGB & Bedingungen` for `Terms &amp; Conditions`)
+export const escapeInnerXml = (value: string) =>
+  value
+    .replace(/&(?!(?:[A-Za-z][\w.-]*|#\d+|#x[\da-fA-F]+);)/g, "&amp;")
+    .replace(/<(?![A-Za-z_/!?])/g, "&lt;");
+
+export const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+export const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attributeRegex = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributeRegex.exec(source))) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+};
+
+export const formatAttributes = (attributes: Record<string, string>) =>
+  Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
@@ -0,0 +1,144 @@
+import { Document, isMap, isScalar, isSeq, Pair, parseDocument } from "yaml";
+import { EntryMetadata, FormatAdapter } from "./types.js";
+
+type YamlFile = {
+  document: Document;
+  // Rails style files wrap everything in the locale, e.g. `en: { auth: ... }`
+  rootKey?: string;
+};
+
+type Leaf = {
+  path: string[];
+  value: unknown;
+  comments: string[];
+};
+
+const pairKey = (pair: Pair) => (isScalar(pair.key) ? String(pair.key.value) : String(pair.key));
+
+const collectLeaves = (node: unknown, path: string[], leaves: Leaf[] = [], comments: string[] = []): Leaf[] => {
+  if (isMap(node)) {
+    node.items.forEach((pair) => {
+      const key = pairKey(pair);
+      const keyComment = isScalar(pair.key) ? pair.key.commentBefore : undefined;
+      collectLeaves(pair.value, [...path, key], leaves, keyComment ? [keyComment] : []);
+    });
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => collectLeaves(item, [...path, index.toString()], leaves));
+  } else if (isScalar(node)) {
+    const valueComments = [node.commentBefore, node.comment].filter((comment): comment is string => !!comment);
+    leaves.push({ path, value: node.value, comments: [...comments, ...valueComments].map((comment) => comment.trim()) });
+  }
+  return leaves;
+};
+
+const getRootNode = ({ document, rootKey }: YamlFile) =>
+  rootKey ? document.get(rootKey, true) : document.contents;
+
+// Numeric segments address sequence items, also when the sequence does not exist yet
+const toDocumentPath = (document: Document, prefix: string[], segments: string[]) =>
+  segments.reduce<(string | number)[]>((path, segment) => {
+    const parent = document.getIn(path, true);
+    const isIndex = /^\d+$/.test(segment) && (isSeq(parent) || parent === undefined);
+    return [...path, isIndex ? parseInt(segment, 10) : segment];
+  }, prefix);
+
+// Removes a leaf and the collections that became empty because of it
+const deleteLeaf = (document: Document, path: string[], minDepth: number) => {
+  document.deleteIn(path);
+  for (let depth = path.length - 1; depth > minDepth; depth--) {
+    const parent = document.getIn(path.slice(0, depth), true);
+    if ((isMap(parent) || isSeq(parent)) && parent.items.length === 0) {
+      document.deleteIn(path.slice(0, depth));
+    } else {
+      break;
+    }
+  }
+};
+
+// Sorts map items (with their comments) by the source position of their first leaf and returns that position;
+// sequences keep their order
+const sortBySource = (node: unknown, path: string[], positions: Map<string, number>, keySeparator: string): number => {
+  const unknown = positions.size;
+  if (isMap(node)) {
+    const items = node.items.map((pair, index) => ({
+      pair,
+      index,
+      position: sortBySource(pair.value, [...path, pairKey(pair)], positions, keySeparator),
+    }));
+    const first = node.items[0];
+    node.items = items.sort((a, b) => a.position - b.position || a.index - b.index).map(({ pair }) => pair);
+    // A comment above the first item is stored on the map, it has to move with that item
+    if (node.commentBefore && first && node.items[0] !== first && isScalar(first.key)) {
+      first.key.commentBefore = node.commentBefore;
+      node.commentBefore = undefined;
+    }
+    return Math.min(unknown, ...items.map(({ position }) => position));
+  }
+  if (isSeq(node)) {
+    return Math.min(unknown, ...node.items.map((item, index) => sortBySource(item, [...path, index.toString()], positions, keySeparator)));
+  }
+  return positions.get(path.join(keySeparator)) ?? unknown;
+};
+
+export const yamlAdapter: FormatAdapter = {
+  name: "yaml",
+  extensions: [".yaml", ".yml"],
+  parse: (content, { keySeparator, locale }) => {
+    const document = parseDocument(content);
+    const data = document.toJS() ?? {};
+    const rootKeys = Object.keys(data);
+    const rootKey = rootKeys.length === 1 && rootKeys[0] === locale && isMap(document.get(locale, true))
+      ? locale
+      : undefined;
+
+    const file: YamlFile = { document, rootKey };
+    const entries: Record<string, string> = {};
+    const metadata: Record<string, EntryMetadata> = {};
+
+    collectLeaves(getRootNode(file), []).forEach(({ path, value, comments }) => {
+      const key = path.join(keySeparator);
+      entries[key] = String(value);
+      if (comments.length > 0) {
+        metadata[key] = { comments };
+      }
+    });
+
+    return { entries, metadata, file };
+  },
+  serialize: (entries, { keySeparator, locale, previous, source, sourceOrder }) => {
+    // Start from the target file to keep its comments and formatting, or from the source file for new files
+    const base: YamlFile | undefined = previous?.file?.document ? previous.file : source?.file?.document ? source.file : undefined;
+    const document = base ? base.document.clone() : new Document({});
+    let rootKey = base?.rootKey;
+
+    if (base && base === source?.file && rootKey && locale && rootKey !== locale) {
+      const rootPair = isMap(document.contents)
+        ? document.contents.items.find((pair) => isScalar(pair.key) && pair.key.value === rootKey)
+        : undefined;
+      if (rootPair && isScalar(rootPair.key)) {
+        rootPair.key.value = locale;
+        rootKey = locale;
+      }
+    }
+
+    const prefix = rootKey ? [rootKey] : [];
+
+    // Drop values that are not part of the output (e.g. source texts of a file created from the source)
+    const leaves = collectLeaves(getRootNode({ document, rootKey }), []);
+    leaves
+      .filter(({ path }) => !(path.join(keySeparator) in entries))
+      .reverse()
+      .forEach(({ path }) => deleteLeaf(document, [...prefix, ...path], prefix.length));
+
+    Object.entries(entries).forEach(([key, value]) => {
+      document.setIn(toDocumentPath(document, prefix, key.split(keySeparator)), value);
+    });
+
+    if (sourceOrder && source) {
+      const positions = new Map(Object.keys(source.entries).map((key, index) => [key, index]));
+      sortBySource(getRootNode({ document, rootKey }), [], positions, keySeparator);
+    }
+
+    return document.toString();
+  },
+};
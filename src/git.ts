@@ -0,0 +1,48 @@
+import { execFileSync } from "child_process";
+import path from "path";
+
+export type SourceChanges = {
+  // Keys whose value differs from the base ref
+  changed: string[];
+  // Keys that did not exist at the base ref
+  added: string[];
+  // Keys that exist at the base ref but not in the current file
+  removed: string[];
+};
+
+const git = (args: string[], cwd: string) =>
+  execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    maxBuffer: 256 * 1024 * 1024,
+  });
+
+/**
+ * Content of a file at a git ref (commit, branch, tag, `origin/main`, ...),
+ * `undefined` when the file did not exist at that ref.
+ */
+export const readFileAtRef = (filePath: string, ref: string): string | undefined => {
+  const cwd = path.dirname(path.resolve(filePath));
+  try {
+    git(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], cwd);
+  } catch (error: any) {
+    const reason = error.stderr?.toString().trim() || "unknown revision";
+    throw new Error(`Cannot resolve git ref "${ref}": ${reason}`);
+  }
+
+  // `ref:./file` is resolved relative to `cwd`, so the repository root does not matter
+  const spec = `${ref}:./${path.basename(filePath)}`;
+  try {
+    git(["cat-file", "-e", spec], cwd);
+  } catch {
+    return undefined;
+  }
+  return git(["show", spec], cwd);
+};
+
+export const compareEntries = (base: Record<string, string>, current: Record<string, string>): SourceChanges => ({
+  changed: Object.keys(current).filter((key) => key in base && base[key] !== current[key]),
+  added: Object.keys(current).filter((key) => !(key in base)),
+  removed: Object.keys(base).filter((key) => !(key in current)),
+});
@@ -0,0 +1,77 @@
+export type GlossaryEntry = {
+  term: string;
+  // Required translation per locale (`de`, `pt-BR`) or output file name (`de.json`)
+  translations?: Record<string, string>;
+  // Brand names and product features that must stay as they are
+  doNotTranslate?: boolean;
+  caseSensitive?: boolean;
+  // Extra explanation for the model
+  note?: string;
+};
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const containsTerm = (text: string, { term, caseSensitive }: GlossaryEntry) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, caseSensitive ? "u" : "iu").test(text);
+
+// The output file name wins over the locale, a language (`pt`) also matches a regional locale (`pt-BR`)
+const requiredTranslation = ({ translations = {} }: GlossaryEntry, file: string, locale?: string) => {
+  if (file in translations) return translations[file];
+  if (!locale) return undefined;
+  return translations[locale] ?? translations[locale.split(/[-_]/)[0]];
+};
+
+export const findGlossaryEntries = (glossary: GlossaryEntry[], texts: string[]) =>
+  glossary.filter((entry) => texts.some((text) => containsTerm(text, entry)));
+
+// Prompt section with the glossary entries relevant for the given texts (empty when there are none)
+export const formatGlossary = (glossary: GlossaryEntry[], texts: string[], file: string, locale?: string) => {
+  const lines = findGlossaryEntries(glossary, texts)
+    .map((entry) => {
+      const note = entry.note ? ` (${entry.note})` : "";
+      if (entry.doNotTranslate) {
+        return `- "${entry.term}": do not translate, keep it exactly as it is${note}`;
+      }
+      const translation = requiredTranslation(entry, file, locale);
+      return translation ? `- "${entry.term}": always translate as "${translation}"${note}` : null;
+    })
+    .filter((line): line is string => line !== null);
+
+  return lines.length > 0 ? `Use this glossary:\n${lines.join("\n")}` : "";
+};
+
+// Glossary violations per key, only keys with at least one violation are included
+export const checkGlossary = (
+  glossary: GlossaryEntry[],
+  sourceChunk: Record<string, string>,
+  translations: Record<string, string>,
+  file: string,
+  locale?: string
+): Record<string, string[]> => {
+  const problemsByKey: Record<string, string[]> = {};
+
+  Object.entries(translations).forEach(([key, translation]) => {
+    if (!(key in sourceChunk) || typeof translation !== "string") return;
+
+    const problems = findGlossaryEntries(glossary, [sourceChunk[key]])
+      .map((entry) => {
+        if (entry.doNotTranslate) {
+          // Found the same way as in the source text, case-insensitively unless `caseSensitive`
+          return containsTerm(translation, entry) ? null : `"${entry.term}" must not be translated`;
+        }
+        const expected = requiredTranslation(entry, file, locale);
+        if (!expected) return null;
+        const found = entry.caseSensitive
+          ? translation.includes(expected)
+          : translation.toLowerCase().includes(expected.toLowerCase());
+        return found ? null : `"${entry.term}" must be translated as "${expected}"`;
+      })
+      .filter((problem): problem is string => problem !== null);
+
+    if (problems.length > 0) {
+      problemsByKey[key] = problems;
+    }
+  });
+
+  return problemsByKey;
+};
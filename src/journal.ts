@@ -0,0 +1,71 @@
+import { createHash } from "crypto";
+import { createJsonStore } from "./files.js";
+
+export const JOURNAL_FILE = ".translation-journal.json";
+
+type JournalEntry = {
+  source: string;
+  translation: string;
+};
+
+type JournalFile = {
+  version: 1;
+  // output file -> translations of finished chunks that were not written to the file yet
+  files: Record<string, { promptHash: string; entries: Record<string, JournalEntry> }>;
+};
+
+export type TranslationJournal = {
+  // Translations an interrupted run finished for the same prompt and source texts
+  resume: (file: string, prompt: string, sources: Record<string, string>) => Record<string, string>;
+  record: (file: string, prompt: string, sources: Record<string, string>, translations: Record<string, string>) => void;
+  // Forgets the translations of a file once it is written
+  complete: (file: string) => void;
+  save: () => void;
+};
+
+const hashPrompt = (prompt: string) => createHash("sha256").update(prompt).digest("hex").slice(0, 32);
+
+/**
+ * Checkpoints finished chunks so a run that crashed or was interrupted only sends the unfinished
+ * work again. The journal file is deleted when every file was written.
+ */
+export const createTranslationJournal = (filePath: string): TranslationJournal => {
+  const store = createJsonStore<JournalFile>(
+    filePath,
+    "translation journal",
+    { version: 1, files: {} },
+    (journal) => Object.keys(journal.files).length === 0
+  );
+  const journal = store.data;
+
+  return {
+    resume: (file, prompt, sources) => {
+      const journalFile = journal.files[file];
+      if (!journalFile || journalFile.promptHash !== hashPrompt(prompt)) {
+        return {};
+      }
+      return Object.fromEntries(
+        Object.entries(sources)
+          .filter(([key, source]) => journalFile.entries[key]?.source === source)
+          .map(([key]) => [key, journalFile.entries[key].translation])
+      );
+    },
+    record: (file, prompt, sources, translations) => {
+      const promptHash = hashPrompt(prompt);
+      if (journal.files[file]?.promptHash !== promptHash) {
+        journal.files[file] = { promptHash, entries: {} };
+      }
+      Object.entries(translations).forEach(([key, translation]) => {
+        journal.files[file].entries[key] = { source: sources[key], translation };
+      });
+      store.touch();
+    },
+    complete: (file) => {
+      if (file in journal.files) {
+        delete journal.files[file];
+        store.touch();
+      }
+    },
+    save: store.save,
+  };
+};
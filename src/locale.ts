@@ -0,0 +1,26 @@
+import path from "path";
+
+/**
+ * Best-effort locale detection from file paths like `de.json`, `app_pt_BR.arb`,
+ * `de.lproj/Localizable.strings` or `values-pt-rBR/strings.xml`.
+ */
+export const localeFromFilename = (file: string): string | undefined => {
+  const directory = path.basename(path.dirname(file));
+
+  // iOS: de.lproj/Localizable.strings
+  const lproj = directory.match(/^(.+)\.lproj$/);
+  if (lproj && lproj[1] !== "Base") {
+    return lproj[1];
+  }
+
+  // Android: values-de/strings.xml, values-pt-rBR/strings.xml
+  const androidValues = directory.match(/^values-([a-z]{2,3})(?:-r([A-Z]{2}))?(?:-|$)/);
+  if (androidValues) {
+    return androidValues[2] ? `${androidValues[1]}-${androidValues[2]}` : androidValues[1];
+  }
+
+  const basename = path.basename(file, path.extname(file));
+  // Language, optionally followed by a region (`pt_BR`) or a script (`zh-Hant`)
+  const match = basename.match(/(?:^|[_.-])([a-z]{2,3}(?:[_-](?:[A-Z]{2}|[A-Z][a-z]{3}))?)$/);
+  return match ? match[1] : undefined;
+};
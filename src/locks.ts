@@ -0,0 +1,71 @@
+import { createJsonStore } from "./files.js";
+import { escapeRegExp } from "./glossary.js";
+
+export const LOCKS_FILE = ".translation-locks.json";
+
+type LockEntry = {
+  // Source text the translation was reviewed against
+  source: string;
+  lockedAt: string;
+};
+
+type LocksFile = {
+  version: 1;
+  // output file -> key -> entry
+  files: Record<string, Record<string, LockEntry>>;
+};
+
+export type LockStore = {
+  // Locked keys of an output file with the source text they were reviewed against
+  lockedKeys: (file: string) => Record<string, string>;
+  lock: (file: string, sources: Record<string, string>) => void;
+  unlock: (file: string, keys: string[]) => void;
+  save: () => void;
+};
+
+/**
+ * Keys of output files that were reviewed by a human and must not be translated again.
+ * The file is only written when keys are (un)locked.
+ */
+export const createLockStore = (filePath: string): LockStore => {
+  const store = createJsonStore<LocksFile>(filePath, "locked keys", { version: 1, files: {} });
+  const locks = store.data;
+
+  return {
+    lockedKeys: (file) =>
+      Object.fromEntries(Object.entries(locks.files[file] ?? {}).map(([key, { source }]) => [key, source])),
+    lock: (file, sources) => {
+      locks.files[file] = locks.files[file] ?? {};
+      const lockedAt = new Date().toISOString();
+      Object.entries(sources).forEach(([key, source]) => {
+        locks.files[file][key] = { source, lockedAt };
+      });
+      store.touch();
+    },
+    unlock: (file, keys) => {
+      keys.forEach((key) => delete locks.files[file]?.[key]);
+      if (locks.files[file] && Object.keys(locks.files[file]).length === 0) {
+        delete locks.files[file];
+      }
+      store.touch();
+    },
+    save: store.save,
+  };
+};
+
+// `*` matches any part of a key, e.g. `legal.*` or `*.title`
+export const createKeyMatcher = (patterns: string[]) => {
+  const regexes = patterns.map((pattern) => new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`));
+  return (key: string) => regexes.some((regex) => regex.test(key));
+};
+
+// Patterns configured for the output file name, its locale, its language (`pt` for `pt-BR`) and `*`
+export const lockedKeyPatterns = (lockedKeys: Record<string, string[]>, file: string, locale?: string) => {
+  const language = locale?.split(/[-_]/)[0];
+  return [
+    ...(lockedKeys["*"] ?? []),
+    ...(lockedKeys[file] ?? []),
+    ...(locale ? lockedKeys[locale] ?? [] : []),
+    ...(language && language !== locale ? lockedKeys[language] ?? [] : []),
+  ];
+};
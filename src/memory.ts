@@ -0,0 +1,54 @@
+import { createHash } from "crypto";
+import { createJsonStore } from "./files.js";
+
+export const TRANSLATION_MEMORY_FILE = ".translation-memory.json";
+
+type MemoryEntry = {
+  source: string;
+  translation: string;
+  updatedAt: string;
+};
+
+type MemoryFile = {
+  version: 1;
+  // locale -> hash of prompt context and source text -> entry
+  entries: Record<string, Record<string, MemoryEntry>>;
+};
+
+export type TranslationMemory = {
+  lookup: (locale: string, context: string, source: string) => string | undefined;
+  store: (locale: string, context: string, source: string, translation: string) => void;
+  save: () => void;
+};
+
+const hash = (value: string) => createHash("sha256").update(value).digest("hex");
+
+// The prompt is part of the key, so changing `productContext` or the file instructions invalidates entries
+const entryKey = (context: string, source: string) => hash(`${hash(context)}\u0000${source}`).slice(0, 32);
+
+/**
+ * Persistent translation memory in a JSON file. Exact matches of the source text translated
+ * for the same locale with the same prompt are reused instead of calling the API.
+ */
+export const createTranslationMemory = (filePath: string): TranslationMemory => {
+  const store = createJsonStore<MemoryFile>(filePath, "translation memory", { version: 1, entries: {} });
+  const memory = store.data;
+
+  return {
+    lookup: (locale, context, source) => {
+      const entry = memory.entries[locale]?.[entryKey(context, source)];
+      // Guards against hash collisions
+      return entry && entry.source === source ? entry.translation : undefined;
+    },
+    store: (locale, context, source, translation) => {
+      memory.entries[locale] = memory.entries[locale] ?? {};
+      memory.entries[locale][entryKey(context, source)] = {
+        source,
+        translation,
+        updatedAt: new Date().toISOString(),
+      };
+      store.touch();
+    },
+    save: store.save,
+  };
+};
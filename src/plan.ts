@@ -0,0 +1,46 @@
+import type { SourceChanges } from "./git.js";
+
+export type FilePlan = {
+  file: string;
+  // The output file is the source file itself, it is never translated
+  isSource: boolean;
+  // Source keys changed or added since the base ref
+  changedKeys: string[];
+  // Source keys the target file does not contain
+  missingKeys: string[];
+  // Translated keys whose source text changed since, see `stateFile`
+  staleKeys: string[];
+  // All keys that would be translated (all source keys in recreate mode)
+  keysToTranslate: string[];
+  // Keys served by the translation memory without an API call
+  reusedKeys: string[];
+  // Keys finished by an interrupted run
+  resumedKeys: string[];
+  // Keys that needed a translation but are locked
+  lockedKeys: string[];
+  // Locked keys whose source text changed since they were reviewed
+  changedLockedKeys: string[];
+  chunks: number;
+  // Prompt and chunk of every API call, without retries and follow-up calls
+  estimatedPromptTokens: number;
+};
+
+export type TranslationPlan = {
+  files: FilePlan[];
+  totalKeys: number;
+  totalChunks: number;
+  estimatedPromptTokens: number;
+  // Changes of the source file since the base ref, not set in recreate mode or without git
+  sourceChanges?: SourceChanges;
+};
+
+// Rough estimate for mixed English / JSON text, about 4 characters per token
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const createTranslationPlan = (files: FilePlan[], sourceChanges?: SourceChanges): TranslationPlan => ({
+  files,
+  totalKeys: files.reduce((sum, file) => sum + file.keysToTranslate.length, 0),
+  totalChunks: files.reduce((sum, file) => sum + file.chunks, 0),
+  estimatedPromptTokens: files.reduce((sum, file) => sum + file.estimatedPromptTokens, 0),
+  sourceChanges,
+});
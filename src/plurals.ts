@@ -0,0 +1,132 @@
+import type { KeyContext } from "./context.js";
+
+const CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+// i18next style plural keys: `items_one`, `items_other`, `place_ordinal_few`
+const PLURAL_KEY_REGEX = new RegExp(`^(.+)_(ordinal_)?(${CATEGORIES.join("|")})$`);
+const ICU_PLURAL_REGEX = /\{\s*[^{},\s]+\s*,\s*(plural|selectordinal)\s*,/;
+
+type PluralKey = {
+  baseKey: string;
+  ordinal: boolean;
+  category: string;
+};
+
+export const parsePluralKey = (key: string): PluralKey | undefined => {
+  const match = key.match(PLURAL_KEY_REGEX);
+  return match ? { baseKey: match[1], ordinal: !!match[2], category: match[3] } : undefined;
+};
+
+const pluralKey = ({ baseKey, ordinal, category }: PluralKey) => `${baseKey}_${ordinal ? "ordinal_" : ""}${category}`;
+
+const createPluralRules = (locale: string | undefined, ordinal: boolean) => {
+  if (!locale) return undefined;
+  try {
+    return new Intl.PluralRules(locale.replace(/_/g, "-"), { type: ordinal ? "ordinal" : "cardinal" });
+  } catch {
+    // Not a locale Intl knows, e.g. a file name that only looks like one
+    return undefined;
+  }
+};
+
+// CLDR plural categories of the locale, undefined when the locale is unknown
+export const pluralCategories = (locale: string | undefined, ordinal = false): string[] | undefined => {
+  const rules = createPluralRules(locale, ordinal);
+  return rules ? CATEGORIES.filter((category) => rules.resolvedOptions().pluralCategories.includes(category as Intl.LDMLPluralRule)) : undefined;
+};
+
+// A few numbers of each category, e.g. `few` -> [2, 3, 4] for Czech
+const pluralExamples = (locale: string, ordinal: boolean) => {
+  const rules = createPluralRules(locale, ordinal);
+  const examples: Record<string, number[]> = {};
+  if (!rules) return examples;
+  const numbers = [...Array.from({ length: 201 }, (_, index) => index), 1000, 1000000, 0.5, 1.5, 2.5];
+  numbers.forEach((number) => {
+    const category = rules.select(number);
+    examples[category] = examples[category] ?? [];
+    if (examples[category].length < 3) {
+      examples[category].push(number);
+    }
+  });
+  return examples;
+};
+
+/**
+ * Adds the i18next plural keys the locale needs but the source file does not have (`items_few`
+ * for Czech when the English source has `items_one` and `items_other`), right after their
+ * siblings. New keys start with the text of the `_other` key, `variants` maps them to it.
+ */
+export const addPluralVariants = (entries: Record<string, string>, locale?: string) => {
+  const variants: Record<string, string> = {};
+  const categories = { cardinal: pluralCategories(locale), ordinal: pluralCategories(locale, true) };
+  if (!categories.cardinal) {
+    return { entries, variants };
+  }
+
+  // Last key of every plural group, the new keys are inserted after it
+  const groups = new Map<string, { plural: PluralKey; lastKey: string }>();
+  Object.keys(entries).forEach((key) => {
+    const plural = parsePluralKey(key);
+    if (plural) {
+      const groupKey = pluralKey({ ...plural, category: "other" });
+      groups.set(groupKey, { plural, lastKey: key });
+    }
+  });
+
+  const missingAfter = new Map<string, string[]>();
+  groups.forEach(({ plural, lastKey }, otherKey) => {
+    // Without an `_other` key it is probably a regular key that happens to end with `_one`
+    if (!(otherKey in entries)) return;
+    const missing = (plural.ordinal ? categories.ordinal ?? [] : categories.cardinal ?? [])
+      .map((category) => pluralKey({ ...plural, category }))
+      .filter((key) => !(key in entries));
+    missing.forEach((key) => {
+      variants[key] = otherKey;
+    });
+    missingAfter.set(lastKey, missing);
+  });
+
+  if (Object.keys(variants).length === 0) {
+    return { entries, variants };
+  }
+  const withVariants: Record<string, string> = {};
+  Object.entries(entries).forEach(([key, value]) => {
+    withVariants[key] = value;
+    (missingAfter.get(key) ?? []).forEach((variant) => {
+      withVariants[variant] = entries[variants[variant]];
+    });
+  });
+  return { entries: withVariants, variants };
+};
+
+/**
+ * Adds the plural category of i18next plural keys and the categories required in ICU plurals
+ * to the key contexts. New variant keys inherit the context of their `_other` key.
+ */
+export const addPluralContexts = (
+  contexts: Record<string, KeyContext>,
+  entries: Record<string, string>,
+  variants: Record<string, string>,
+  locale?: string
+): Record<string, KeyContext> => {
+  if (!locale || !pluralCategories(locale)) {
+    return contexts;
+  }
+  const examples = { cardinal: pluralExamples(locale, false), ordinal: pluralExamples(locale, true) };
+  const result = { ...contexts };
+  const describe = (key: string, note: string) => {
+    const context = contexts[key] ?? contexts[variants[key]] ?? {};
+    result[key] = { ...context, description: [context.description, note].filter(Boolean).join(". ") };
+  };
+
+  Object.entries(entries).forEach(([key, value]) => {
+    const plural = parsePluralKey(key);
+    if (plural && (key in variants || pluralKey({ ...plural, category: "other" }) in entries)) {
+      const numbers = (plural.ordinal ? examples.ordinal : examples.cardinal)[plural.category] ?? [];
+      const usage = numbers.length > 0 ? `, used for ${numbers.join(", ")}` : "";
+      describe(key, `${plural.ordinal ? "Ordinal" : "Plural"} form "${plural.category}" in ${locale}${usage}`);
+    } else if (ICU_PLURAL_REGEX.test(value)) {
+      describe(key, `ICU plural, use the ${locale} categories ${pluralCategories(locale)?.join(", ")}`);
+    }
+  });
+  return result;
+};
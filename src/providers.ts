@@ -0,0 +1,396 @@
+import chalk from "chalk";
+import { OpenAI } from "openai";
+
+const MAX_RETRIES = 5;
+
+export type TranslationRequest = {
+  // Output file the chunk is translated for (e.g. "de.json")
+  file: string;
+  prompt: string;
+  chunk: Record<string, string>;
+  // Called before waiting to retry (rate limit, timeout, 5xx), the wait is logged to the console without it
+  onRateLimit?: (wait: RateLimitWait) => void;
+  // Runs every attempt (the first one and each retry), e.g. through the shared request queue of a run
+  scheduleAttempt?: <T>(attempt: () => Promise<T>) => Promise<T>;
+};
+
+export type RetryReason = "rate-limit" | "timeout" | "connection" | "server-error";
+
+export type RateLimitWait = {
+  waitMs: number;
+  attempt: number;
+  maxRetries: number;
+  message: string;
+  reason: RetryReason;
+};
+
+export const describeRetryReason = (reason: RetryReason) =>
+  ({
+    "rate-limit": "Rate limit exceeded",
+    timeout: "Request timed out",
+    connection: "Connection failed",
+    "server-error": "Server error",
+  })[reason];
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type TranslationResponse = {
+  translations: Record<string, string>;
+  // Raw text received from the model, kept for error reporting
+  raw: string;
+  // Tokens reported by the API, if the provider knows them
+  usage?: TokenUsage;
+};
+
+export type TranslationProvider = {
+  name: string;
+  translate: (request: TranslationRequest) => Promise<TranslationResponse>;
+  // Set when `translate` runs each attempt through `request.scheduleAttempt`, other providers are queued as a whole
+  schedulesAttempts?: boolean;
+};
+
+// Thrown when the provider got an answer but it is not a usable key/value JSON
+export class InvalidResponseError extends Error {
+  constructor(
+    message: string,
+    public readonly raw: string,
+    public readonly rawError?: unknown
+  ) {
+    super(message);
+    this.name = "InvalidResponseError";
+  }
+}
+
+// Thrown when an assistant run fails with an error that is worth retrying instead of rejecting
+class RetryableRunError extends Error {
+  constructor(message: string, public readonly reason: RetryReason) {
+    super(message);
+  }
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const extractWaitTimeFromError = (errorMessage: string): number | null => {
+  // Try to extract wait time from messages like "Please try again in 1.362s"
+  const match = errorMessage.match(/try again in ([\d.]+)s/i);
+  if (match && match[1]) {
+    return parseFloat(match[1]);
+  }
+  return null;
+};
+
+// Errors of the OpenAI client (and of assistant runs) that a later attempt can fix
+const retryReason = (error: any): RetryReason | undefined => {
+  if (error instanceof RetryableRunError) return error.reason;
+  if (error instanceof OpenAI.APIConnectionTimeoutError) return "timeout";
+  if (error instanceof OpenAI.APIUserAbortError) return undefined;
+  if (error instanceof OpenAI.APIConnectionError) return "connection";
+  if (error instanceof OpenAI.APIError) {
+    if (error.status === 429) return "rate-limit";
+    if (error.status === 408) return "timeout";
+    if (error.status !== undefined && error.status >= 500) return "server-error";
+  }
+  return undefined;
+};
+
+// `retry-after-ms` / `retry-after` headers, or the hint in the message of rate limit errors
+const retryAfterMs = (error: any): number | null => {
+  const headers = error instanceof OpenAI.APIError ? error.headers : undefined;
+  const retryAfterMsHeader = parseFloat(headers?.["retry-after-ms"] ?? "");
+  if (!isNaN(retryAfterMsHeader)) {
+    return retryAfterMsHeader;
+  }
+  const retryAfter = headers?.["retry-after"];
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const waitTime = extractWaitTimeFromError(error?.message ?? "");
+  return waitTime !== null ? waitTime * 1000 : null;
+};
+
+/**
+ * Retries rate limits, timeouts, connection and 5xx errors. The wait follows the `retry-after`
+ * headers when the API sends them, otherwise an exponential backoff; both get a random jitter
+ * so parallel requests do not retry at the same moment.
+ */
+const retryRequest = async <T>(
+  operation: () => Promise<T>,
+  maxRetries: number,
+  onRateLimit?: (wait: RateLimitWait) => void,
+  scheduleAttempt: TranslationRequest["scheduleAttempt"] = (attempt) => attempt()
+): Promise<T> => {
+  let retryCount = 0;
+
+  while (true) {
+    try {
+      return await scheduleAttempt(operation);
+    } catch (error: any) {
+      const reason = retryReason(error);
+      if (!reason || retryCount >= maxRetries) {
+        throw error;
+      }
+
+      const message: string = error.message || "";
+      const baseWait = retryAfterMs(error) ?? Math.pow(2, retryCount) * 1000;
+      const totalWaitMs = Math.round(baseWait + 500 + Math.random() * Math.min(baseWait, 1000));
+
+      retryCount++;
+      if (onRateLimit) {
+        onRateLimit({ waitMs: totalWaitMs, attempt: retryCount, maxRetries, message, reason });
+      } else {
+        console.log(chalk.yellow(`⏳ ${describeRetryReason(reason)}. Waiting ${(totalWaitMs / 1000).toFixed(1)}s before retry (attempt ${retryCount}/${maxRetries})...`));
+        console.log(chalk.gray(`   ${message}`));
+      }
+
+      await sleep(totalWaitMs);
+    }
+  }
+};
+
+export const parseTranslationResponse = (raw: string): Record<string, string> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (parseError) {
+    throw new InvalidResponseError("Failed to parse JSON response", raw, parseError);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new InvalidResponseError("Response is not a JSON object", raw);
+  }
+
+  return parsed as Record<string, string>;
+};
+
+const callTsAiAssistant = async ({ content, assistant_id, client }: {
+  content: string;
+  assistant_id: string;
+  client: OpenAI;
+}) => {
+  // Creates a thread and waits for the result
+  const run = await client.beta.threads.createAndRunPoll({
+    assistant_id,
+    thread: {
+      messages: [{ role: "user", content }],
+    },
+  });
+
+  // 1) Never assume the run completed successfully
+  if (run.status !== "completed") {
+    // Pull full details (optional but helpful)
+    const full = await client.beta.threads.runs.retrieve(run.thread_id, run.id);
+
+    // Check if this is a rate limit error
+    if (full.last_error?.code === "rate_limit_exceeded") {
+      throw new RetryableRunError(full.last_error.message || "", "rate-limit");
+    }
+    if (full.last_error?.code === "server_error") {
+      throw new RetryableRunError(full.last_error.message || "", "server-error");
+    }
+
+    // Run steps are often the fastest way to see what happened
+    const steps = await client.beta.threads.runs.steps.list(run.thread_id, run.id);
+
+    throw new Error(`Run not completed. status=${full.status} ` +
+      `last_error=${JSON.stringify(full.last_error)} ` +
+      `incomplete_details=${JSON.stringify(full.incomplete_details)} ` +
+      `steps_count=${steps.data?.length ?? 0}`);
+  }
+
+  // 2) List messages produced by THIS run, then pick the assistant message
+  const msgs = await client.beta.threads.messages.list(run.thread_id, {
+    run_id: run.id,
+    order: "desc",
+    limit: 20,
+  });
+
+  const usage = run.usage
+    ? { promptTokens: run.usage.prompt_tokens, completionTokens: run.usage.completion_tokens }
+    : undefined;
+
+  const assistantMsg = msgs.data.find(m => m.role === "assistant");
+  if (!assistantMsg) {
+    throw new Error(`Run completed but no assistant message found for run_id=${run.id}`);
+  }
+
+  // 3) Extract text content safely
+  const textParts = assistantMsg.content
+    .filter(p => p.type === "text")
+    .map(p => p.type === "text" ? (p.text?.value ?? "") : "");
+
+  return { text: textParts.join("\n").trim(), usage };
+};
+
+/**
+ * Sends each chunk as a new thread to an existing OpenAI assistant (Assistants API).
+ */
+export const createAssistantProvider = ({
+  assistantId,
+  apiKey,
+  client,
+  maxRetries = MAX_RETRIES,
+}: {
+  assistantId: string;
+  apiKey?: string;
+  client?: OpenAI;
+  maxRetries?: number;
+}): TranslationProvider => {
+  // Retries are handled by `retryRequest`, not by the client
+  const aiClient = client ?? new OpenAI({ apiKey, maxRetries: 0 });
+
+  return {
+    name: `assistant (${assistantId})`,
+    schedulesAttempts: true,
+    translate: async ({ prompt, chunk, onRateLimit, scheduleAttempt }) => {
+      const content = `${prompt}\n\n${JSON.stringify(chunk)}`;
+      const { text: raw, usage } = await retryRequest(
+        () => callTsAiAssistant({ assistant_id: assistantId, content, client: aiClient }),
+        maxRetries,
+        onRateLimit,
+        scheduleAttempt
+      );
+      return { translations: parseTranslationResponse(raw), raw, usage };
+    },
+  };
+};
+
+export type ResponseFormat = "json_schema" | "json_object" | "text";
+
+// Structured output schema requiring exactly the keys of the chunk
+const createResponseFormat = (responseFormat: ResponseFormat, chunk: Record<string, string>) => {
+  if (responseFormat === "json_object") {
+    return { type: "json_object" as const };
+  }
+  if (responseFormat === "json_schema") {
+    const keys = Object.keys(chunk);
+    return {
+      type: "json_schema" as const,
+      json_schema: {
+        name: "translations",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: Object.fromEntries(keys.map(key => [key, { type: "string" }])),
+          required: keys,
+          additionalProperties: false,
+        },
+      },
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Uses plain Chat Completions. By default the response is constrained with a JSON schema
+ * built from the keys of each chunk.
+ */
+export const createChatCompletionsProvider = ({
+  model,
+  apiKey,
+  baseURL,
+  client,
+  temperature,
+  responseFormat = "json_schema",
+  maxRetries = MAX_RETRIES,
+  name,
+}: {
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  client?: OpenAI;
+  temperature?: number;
+  responseFormat?: ResponseFormat;
+  maxRetries?: number;
+  name?: string;
+}): TranslationProvider => {
+  const aiClient = client ?? new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+
+  return {
+    name: name ?? `chat completions (${model})`,
+    schedulesAttempts: true,
+    translate: async ({ prompt, chunk, onRateLimit, scheduleAttempt }) => {
+      const completion = await retryRequest(
+        () => aiClient.chat.completions.create({
+          model,
+          temperature,
+          messages: [
+            { role: "system", content: prompt },
+            { role: "user", content: JSON.stringify(chunk) },
+          ],
+          response_format: createResponseFormat(responseFormat, chunk),
+        }),
+        maxRetries,
+        onRateLimit,
+        scheduleAttempt
+      );
+
+      const message = completion.choices[0]?.message;
+      if (message?.refusal) {
+        throw new Error(`Model refused to translate: ${message.refusal}`);
+      }
+
+      const raw = (message?.content ?? "").trim();
+      const usage = completion.usage
+        ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
+        : undefined;
+      return { translations: parseTranslationResponse(raw), raw, usage };
+    },
+  };
+};
+
+/**
+ * Chat Completions against any OpenAI-compatible server (vLLM, Ollama, LM Studio, ...).
+ * Most of them do not support strict JSON schemas, so JSON mode is the default.
+ */
+export const createOpenAiCompatibleProvider = ({
+  baseURL,
+  model,
+  apiKey = "not-needed",
+  responseFormat = "json_object",
+  ...rest
+}: {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  responseFormat?: ResponseFormat;
+  maxRetries?: number;
+}): TranslationProvider =>
+  createChatCompletionsProvider({
+    ...rest,
+    baseURL,
+    model,
+    apiKey,
+    responseFormat,
+    name: `openai-compatible (${model} @ ${baseURL})`,
+  });
+
+/**
+ * Deterministic provider without any network access, for tests and CI.
+ * By default every value is returned unchanged; pass `translate` to transform values.
+ */
+export const createMockProvider = ({
+  translate = ({ value }) => value,
+}: {
+  translate?: (entry: { key: string; value: string; file: string }) => string;
+} = {}): TranslationProvider & { calls: TranslationRequest[] } => {
+  const calls: TranslationRequest[] = [];
+
+  return {
+    name: "mock",
+    calls,
+    translate: async (request) => {
+      calls.push(request);
+      const translations = Object.fromEntries(
+        Object.entries(request.chunk).map(([key, value]) => [key, translate({ key, value, file: request.file })])
+      );
+      return { translations, raw: JSON.stringify(translations) };
+    },
+  };
+};
@@ -0,0 +1,65 @@
+export type ReconciledResponse = {
+  // Translations of keys from the chunk only
+  translations: Record<string, string>;
+  // Chunk keys the response did not contain
+  missing: string[];
+  // Response keys that are not in the chunk and were discarded
+  extra: string[];
+  // Response keys mapped back to chunk keys, e.g. `Auth.Title` -> `auth.title`
+  renamed: Record<string, string>;
+};
+
+// Models sometimes change case, whitespace or separators of keys
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[\s_.\-:/]+/g, "");
+
+/**
+ * Compares a response with the keys of the chunk it was requested for. Unknown keys are discarded,
+ * unless they match exactly one missing key after normalization; then they count as renamed.
+ */
+export const reconcileKeys = (chunk: Record<string, string>, response: Record<string, string>): ReconciledResponse => {
+  const translations: Record<string, string> = {};
+  const unknownKeys: string[] = [];
+
+  Object.entries(response).forEach(([key, value]) => {
+    if (key in chunk) {
+      translations[key] = value;
+    } else {
+      unknownKeys.push(key);
+    }
+  });
+
+  const missingByNormalizedKey = new Map<string, string[]>();
+  Object.keys(chunk)
+    .filter((key) => !(key in translations))
+    .forEach((key) => {
+      const normalized = normalizeKey(key);
+      missingByNormalizedKey.set(normalized, [...(missingByNormalizedKey.get(normalized) ?? []), key]);
+    });
+
+  const unknownByNormalizedKey = new Map<string, string[]>();
+  unknownKeys.forEach((key) => {
+    const normalized = normalizeKey(key);
+    unknownByNormalizedKey.set(normalized, [...(unknownByNormalizedKey.get(normalized) ?? []), key]);
+  });
+
+  const renamed: Record<string, string> = {};
+  const extra: string[] = [];
+  unknownKeys.forEach((key) => {
+    const normalized = normalizeKey(key);
+    const candidates = missingByNormalizedKey.get(normalized) ?? [];
+    // Only unambiguous matches are accepted
+    if (candidates.length === 1 && unknownByNormalizedKey.get(normalized)?.length === 1) {
+      renamed[key] = candidates[0];
+      translations[candidates[0]] = response[key];
+    } else {
+      extra.push(key);
+    }
+  });
+
+  return {
+    translations,
+    missing: Object.keys(chunk).filter((key) => !(key in translations)),
+    extra,
+    renamed,
+  };
+};
@@ -0,0 +1,166 @@
+import path from "path";
+import type { TranslationProvider } from "./providers.js";
+
+export const QA_REPORT_DIRECTORY = ".translation-qa";
+
+export const REVIEW_ISSUES = [
+  "mistranslation",
+  "omission",
+  "untranslated",
+  "tone",
+  "grammar",
+  "terminology",
+  "formatting",
+  "other",
+] as const;
+
+export type ReviewIssue = (typeof REVIEW_ISSUES)[number];
+
+export type ReviewOptions = {
+  // Second model for the review, the translation provider by default
+  provider?: TranslationProvider;
+  // "back-translation" first translates every translation back to english and shows it to the reviewer
+  mode?: "judge" | "back-translation";
+  // Keys scored below it (0-100) are retranslated or flagged
+  threshold?: number;
+  onLowScore?: "retranslate" | "flag";
+  // How many times keys below the threshold are retranslated with the reviewer's comments
+  retries?: number;
+  // QA reports of the output files, `.translation-qa` in the output directory by default
+  reportDirectory?: string;
+};
+
+export type KeyReview = {
+  score: number;
+  issue?: ReviewIssue;
+  comment?: string;
+};
+
+export type QaReportEntry = {
+  key: string;
+  source: string;
+  translation: string;
+  // Not set when the reviewer returned no usable review for the key
+  score?: number;
+  issue?: ReviewIssue;
+  comment?: string;
+  backTranslation?: string;
+  // "retranslated" keys were below the threshold and their new translation was used
+  status: "passed" | "retranslated" | "flagged" | "unreviewed";
+};
+
+export type QaReport = {
+  file: string;
+  locale?: string;
+  mode: "judge" | "back-translation";
+  threshold: number;
+  reviewedAt: string;
+  summary: {
+    keys: number;
+    passed: number;
+    retranslated: number;
+    flagged: number;
+    unreviewed: number;
+    averageScore?: number;
+  };
+  // Lowest scores first, unreviewed keys at the end
+  entries: QaReportEntry[];
+};
+
+// Keeps the directories of the output file, `values-de/strings.xml` and `values-fr/strings.xml` need their own reports
+export const qaReportFileName = (file: string) => {
+  const { dir, name } = path.parse(file);
+  return path.join(dir, `${name}.qa.json`);
+};
+
+export const createReviewPrompt = ({ locale, productContext, extraContext, backTranslation }: {
+  locale: string;
+  productContext: string;
+  extraContext?: string;
+  backTranslation: boolean;
+}) =>
+  [
+    `You are a professional reviewer of translations from english to ${locale}.`,
+    `For every key you get a JSON-encoded object with the english "source" text and its "translation"${
+      backTranslation ? ` and a "backTranslation" of the translation to english, made without seeing the source` : ""
+    }.`,
+    "Score each translation from 0 (wrong or unusable) to 100 (perfect). A good translation keeps the meaning of the source, " +
+      "sounds natural, uses the right tone and terminology and keeps placeholders and tags.",
+    [
+      "Give me one json with the same keys. The value of each key is a JSON-encoded string of an object with:",
+      `- "score": number from 0 to 100`,
+      `- "issue": the main problem, one of ${REVIEW_ISSUES.map((issue) => `"${issue}"`).join(", ")}, or "none"`,
+      `- "comment": one short sentence in english describing the problem, empty when there is none`,
+    ].join("\n"),
+    productContext,
+    extraContext ? `Instructions the translator got for this language:\n${extraContext}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+export const createBackTranslationPrompt = (locale: string) =>
+  `You are a professional translator. Translate the following ${locale} texts to english as literally as possible, ` +
+  "so a reviewer can compare them with the original texts. Keep placeholders and tags.\n\n" +
+  "Give me one json with the translations. Do not miss any keys.";
+
+// Reviews come as JSON-encoded strings (structured output only allows strings) or as objects
+export const parseKeyReview = (value: unknown): KeyReview | undefined => {
+  let parsed: any = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  const score = Number(parsed?.score);
+  if (!parsed || typeof parsed !== "object" || parsed.score === null || isNaN(score) || score < 0 || score > 100) {
+    return undefined;
+  }
+
+  const issue = REVIEW_ISSUES.find((known) => known === parsed.issue) ?? (parsed.issue && parsed.issue !== "none" ? "other" : undefined);
+  const comment = typeof parsed.comment === "string" && parsed.comment.trim() ? parsed.comment.trim() : undefined;
+  return {
+    score,
+    ...(issue ? { issue } : {}),
+    ...(comment ? { comment } : {}),
+  };
+};
+
+// Prompt section for retranslating keys the reviewer scored too low
+export const formatReviewFeedback = (reviews: Record<string, KeyReview>) => [
+  "A reviewer found problems in your previous translations of the following keys. Translate them again and fix these problems:",
+  ...Object.entries(reviews).map(([key, { score, issue, comment }]) =>
+    `- "${key}": ${[issue ?? "low quality", comment].filter(Boolean).join(", ")} (score ${score}/100)`
+  ),
+].join("\n");
+
+export const createQaReport = ({ file, locale, mode, threshold, entries }: {
+  file: string;
+  locale?: string;
+  mode: QaReport["mode"];
+  threshold: number;
+  entries: QaReportEntry[];
+}): QaReport => {
+  const scores = entries.filter((entry) => entry.score !== undefined).map((entry) => entry.score as number);
+  const count = (status: QaReportEntry["status"]) => entries.filter((entry) => entry.status === status).length;
+
+  return {
+    file,
+    ...(locale ? { locale } : {}),
+    mode,
+    threshold,
+    reviewedAt: new Date().toISOString(),
+    summary: {
+      keys: entries.length,
+      passed: count("passed"),
+      retranslated: count("retranslated"),
+      flagged: count("flagged"),
+      unreviewed: count("unreviewed"),
+      ...(scores.length > 0
+        ? { averageScore: Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10 }
+        : {}),
+    },
+    entries: [...entries].sort((a, b) => (a.score ?? Infinity) - (b.score ?? Infinity)),
+  };
+};
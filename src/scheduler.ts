@@ -0,0 +1,93 @@
+import { sleep } from "./providers.js";
+
+const MINUTE = 60 * 1000;
+
+export type SchedulerOptions = {
+  // Requests running at the same time over all files and chunks
+  maxConcurrency: number;
+  requestsPerMinute?: number;
+  // Estimated tokens of the requests started within a minute
+  tokensPerMinute?: number;
+};
+
+export type RequestScheduler = {
+  schedule: <T>(estimatedTokens: number, operation: () => Promise<T>) => Promise<T>;
+  // Holds back new requests, e.g. while the API answers with rate limit errors
+  pause: (ms: number) => void;
+};
+
+type QueuedRequest = {
+  tokens: number;
+  start: () => void;
+};
+
+/**
+ * One queue for all API requests of a run. Requests start in order, when a slot is free and
+ * the requests / tokens of the last minute leave room for them.
+ */
+export const createRequestScheduler = ({ maxConcurrency, requestsPerMinute, tokensPerMinute }: SchedulerOptions): RequestScheduler => {
+  const queue: QueuedRequest[] = [];
+  // Start time and estimated tokens of the requests started within the last minute
+  let started: { at: number; tokens: number }[] = [];
+  let active = 0;
+  let pausedUntil = 0;
+  let pumping = false;
+
+  const waitTime = (tokens: number) => {
+    const now = Date.now();
+    started = started.filter(({ at }) => at > now - MINUTE);
+    let wait = Math.max(0, pausedUntil - now);
+
+    if (requestsPerMinute !== undefined && started.length >= requestsPerMinute) {
+      wait = Math.max(wait, started[started.length - requestsPerMinute].at + MINUTE - now);
+    }
+    if (tokensPerMinute !== undefined && started.length > 0) {
+      // A request larger than the limit starts alone once the window is empty
+      let used = started.reduce((sum, request) => sum + request.tokens, 0);
+      for (const request of started) {
+        if (used + tokens <= tokensPerMinute) break;
+        used -= request.tokens;
+        wait = Math.max(wait, request.at + MINUTE - now);
+      }
+    }
+    return wait;
+  };
+
+  const pump = async () => {
+    if (pumping) return;
+    pumping = true;
+    while (queue.length > 0 && active < maxConcurrency) {
+      const wait = waitTime(queue[0].tokens);
+      if (wait > 0) {
+        await sleep(wait);
+        continue;
+      }
+      const next = queue.shift() as QueuedRequest;
+      active++;
+      started.push({ at: Date.now(), tokens: next.tokens });
+      next.start();
+    }
+    pumping = false;
+  };
+
+  return {
+    schedule: (estimatedTokens, operation) =>
+      new Promise((resolve, reject) => {
+        queue.push({
+          tokens: estimatedTokens,
+          start: () => {
+            operation()
+              .then(resolve, reject)
+              .finally(() => {
+                active--;
+                pump();
+              });
+          },
+        });
+        pump();
+      }),
+    pause: (ms) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+};
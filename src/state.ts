@@ -0,0 +1,57 @@
+import { createHash } from "crypto";
+import { createJsonStore } from "./files.js";
+
+export const STATE_FILE = ".translation-state.json";
+
+type StateFile = {
+  version: 1;
+  // output file -> key -> hash of the source text the translation was made from
+  files: Record<string, Record<string, string>>;
+};
+
+export type TranslationState = {
+  // Keys whose source text changed since they were translated, keys locked against the current
+  // source text (`reviewed`, see `LockStore.lockedKeys`) were checked by a human and are not stale
+  staleKeys: (file: string, source: Record<string, string>, reviewed?: Record<string, string>) => string[];
+  // Records the source of translated and reviewed keys and of keys seen for the first time, forgets keys not in `keys`
+  update: (
+    file: string,
+    source: Record<string, string>,
+    keys: string[],
+    translatedKeys: string[],
+    reviewed?: Record<string, string>
+  ) => void;
+  save: () => void;
+};
+
+// Numbers, booleans and null of JSON files are hashed as their text
+export const hashSource = (source: string) => createHash("sha256").update(String(source)).digest("hex").slice(0, 16);
+
+const isReviewed = (key: string, source: Record<string, string>, reviewed: Record<string, string>) =>
+  key in reviewed && reviewed[key] === source[key];
+
+/**
+ * Source hashes of every translated key, independent of git. Keys that existed before the
+ * state file are recorded with their current source text.
+ */
+export const createTranslationState = (filePath: string): TranslationState => {
+  const store = createJsonStore<StateFile>(filePath, "translation state", { version: 1, files: {} });
+  const state = store.data;
+
+  return {
+    staleKeys: (file, source, reviewed = {}) =>
+      Object.entries(state.files[file] ?? {})
+        .filter(([key, hash]) => key in source && hashSource(source[key]) !== hash && !isReviewed(key, source, reviewed))
+        .map(([key]) => key),
+    update: (file, source, keys, translatedKeys, reviewed = {}) => {
+      const previous = state.files[file] ?? {};
+      const translated = new Set(translatedKeys);
+      const isCurrent = (key: string) => translated.has(key) || !(key in previous) || isReviewed(key, source, reviewed);
+      state.files[file] = Object.fromEntries(
+        keys.filter((key) => key in source).map((key) => [key, isCurrent(key) ? hashSource(source[key]) : previous[key]])
+      );
+      store.touch();
+    },
+    save: store.save,
+  };
+};
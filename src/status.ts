@@ -0,0 +1,84 @@
+import fs from "fs";
+import path from "path";
+import { FormatAdapter, FormatName, readCatalogFile } from "./formats/index.js";
+import { localeFromFilename } from "./locale.js";
+import { createLockStore, LOCKS_FILE } from "./locks.js";
+import { addPluralVariants } from "./plurals.js";
+import { createTranslationState, STATE_FILE } from "./state.js";
+
+export type TranslationStatusOptions = {
+  sourceFile: string;
+  sourceDirectory: string;
+  outputFiles: string[];
+  outputDirectory: string;
+  keySeparator?: string;
+  format?: FormatName | FormatAdapter;
+  // Same as in `generateTranslations`, stale keys are only reported with it
+  stateFile?: boolean | string;
+  // Keys locked against their current source text are not stale
+  locksFile?: string;
+};
+
+export type FileStatus = {
+  file: string;
+  exists: boolean;
+  // Source keys plus the plural forms the locale of the file needs
+  expected: number;
+  // Source keys with a non-empty translation
+  translated: number;
+  // Source keys without a translation (or with an empty one)
+  missing: string[];
+  // Keys that are no longer in the source
+  extra: string[];
+  // Translated keys whose source text changed since, see `stateFile`
+  stale: string[];
+};
+
+export type TranslationStatus = {
+  sourceKeys: number;
+  files: FileStatus[];
+};
+
+/**
+ * Compares every output file with the source file without calling any API.
+ */
+export const getTranslationStatus = ({
+  sourceFile,
+  sourceDirectory,
+  outputFiles,
+  outputDirectory,
+  keySeparator = ".",
+  format,
+  stateFile = false,
+  locksFile,
+}: TranslationStatusOptions): TranslationStatus => {
+  const source = readCatalogFile(path.join(sourceDirectory, sourceFile), sourceFile, { keySeparator, format, isSource: true }).entries;
+  const sourceKeys = Object.keys(source);
+  const state = stateFile
+    ? createTranslationState(typeof stateFile === "string" ? stateFile : path.join(outputDirectory, STATE_FILE))
+    : undefined;
+  const locks = createLockStore(locksFile ?? path.join(outputDirectory, LOCKS_FILE));
+
+  const files = outputFiles.map((file): FileStatus => {
+    const filePath = path.join(outputDirectory, file);
+    const fileSource = addPluralVariants(source, localeFromFilename(file)).entries;
+    const fileKeys = Object.keys(fileSource);
+    if (!fs.existsSync(filePath)) {
+      return { file, exists: false, expected: fileKeys.length, translated: 0, missing: fileKeys, extra: [], stale: [] };
+    }
+
+    const { entries } = readCatalogFile(filePath, file, { keySeparator, format });
+    const missing = fileKeys.filter((key) => !entries[key] && fileSource[key] !== "");
+    return {
+      file,
+      exists: true,
+      expected: fileKeys.length,
+      translated: fileKeys.length - missing.length,
+      missing,
+      extra: Object.keys(entries).filter((key) => !(key in fileSource)),
+      stale: state?.staleKeys(file, fileSource, locks.lockedKeys(file)).filter((key) => key in entries) ?? [],
+    };
+  });
+
+  return { sourceKeys: sourceKeys.length, files };
+};
@@ -0,0 +1,235 @@
+type IcuArgument = {
+  name: string;
+  type?: string;
+  selectors: string[];
+};
+
+// printf / i18next / Python / iOS style placeholders: %s, %1$d, %(name)s, %@, {{name}}, $t(key)
+const PLACEHOLDER_REGEX = /%(?:\d+\$)?[sdif@]|%\([\w.]+\)[sdif]|\{\{[^{}]+\}\}|\$t\([^)]*\)/g;
+const TAG_REGEX = /<(\/?)([A-Za-z0-9][\w.:-]*)(?:\s[^<>]*?)?(\/?)>/g;
+
+const sortedMatches = (text: string, regex: RegExp) => (text.match(regex) ?? []).map((match) => match.replace(/\s+/g, "")).sort();
+
+// Tags without attributes, e.g. `<a href="/x">` -> `<a>`, `<br />` -> `<br/>`
+const extractTags = (text: string) => {
+  const tags: string[] = [];
+  let match: RegExpExecArray | null;
+  TAG_REGEX.lastIndex = 0;
+  while ((match = TAG_REGEX.exec(text))) {
+    tags.push(`<${match[1]}${match[2]}${match[3]}>`);
+  }
+  return tags.sort();
+};
+
+const describeDifference = (expected: string[], actual: string[]) => {
+  const missing = [...expected];
+  const extra: string[] = [];
+  actual.forEach((item) => {
+    const index = missing.indexOf(item);
+    if (index >= 0) {
+      missing.splice(index, 1);
+    } else {
+      extra.push(item);
+    }
+  });
+  return { missing, extra };
+};
+
+class IcuSyntaxError extends Error {}
+
+// Apostrophe quoting only applies to real ICU messages, in `{name}` interpolation (vue-i18n, i18next
+// single braces) `l'{app}` is a French elision
+const usesIcuQuoting = (source: string) =>
+  /'[{}]|''/.test(source) || /\{\s*[^{},]+,\s*(?:plural|select|selectordinal)\s*,/.test(source);
+
+/**
+ * Collects ICU MessageFormat arguments (`{name}`, `{count, plural, one {...} other {...}}`),
+ * including the ones nested in plural / select branches. Throws on unbalanced braces.
+ */
+const parseIcuArguments = (text: string, quoting = true): IcuArgument[] => {
+  // i18next interpolation uses double braces and is checked as a plain placeholder
+  const message = text.replace(/\{\{[^{}]+\}\}/g, "");
+  const args: IcuArgument[] = [];
+  let position = 0;
+
+  const skipWhitespace = () => {
+    while (/\s/.test(message[position] ?? "")) position++;
+  };
+
+  const readUntil = (stops: string) => {
+    const start = position;
+    while (position < message.length && !stops.includes(message[position])) position++;
+    return message.slice(start, position).trim();
+  };
+
+  // Parses message text until the closing brace of the enclosing branch (or the end)
+  const parseText = (nested: boolean) => {
+    while (position < message.length) {
+      const char = message[position];
+      if (quoting && char === "'" && (message[position + 1] === "{" || message[position + 1] === "}")) {
+        // Quoted literal text, e.g. '{' or '{not an argument}'
+        const end = message.indexOf("'", position + 1);
+        position = end === -1 ? message.length : end + 1;
+      } else if (char === "{") {
+        position++;
+        parseArgument();
+      } else if (char === "}") {
+        if (!nested) {
+          throw new IcuSyntaxError("Unexpected }");
+        }
+        return;
+      } else {
+        position++;
+      }
+    }
+    if (nested) {
+      throw new IcuSyntaxError("Missing }");
+    }
+  };
+
+  const parseArgument = () => {
+    const name = readUntil(",}");
+    const argument: IcuArgument = { name, selectors: [] };
+    args.push(argument);
+
+    if (message[position] === ",") {
+      position++;
+      argument.type = readUntil(",}");
+      if (message[position] === "," && ["plural", "select", "selectordinal"].includes(argument.type)) {
+        position++;
+        while (position < message.length) {
+          skipWhitespace();
+          if (message[position] === "}") break;
+          const selector = readUntil("{} \n\t");
+          skipWhitespace();
+          if (message[position] !== "{") {
+            throw new IcuSyntaxError(`Missing branch for "${selector}" in {${name}}`);
+          }
+          // `offset:1` is a plural option, not a branch
+          if (!selector.startsWith("offset:")) {
+            argument.selectors.push(selector);
+          }
+          position++;
+          parseText(true);
+          position++;
+        }
+      } else {
+        readUntil("}");
+      }
+    }
+
+    if (message[position] !== "}") {
+      throw new IcuSyntaxError(`Missing } for {${name}}`);
+    }
+    position++;
+  };
+
+  parseText(false);
+  return args;
+};
+
+const validateIcu = (source: string, translation: string): string[] => {
+  const quoting = usesIcuQuoting(source);
+  let sourceArgs: IcuArgument[];
+  try {
+    sourceArgs = parseIcuArguments(source, quoting);
+  } catch {
+    // The source is not a valid ICU message (e.g. plain text with braces), nothing to compare
+    return [];
+  }
+
+  let translationArgs: IcuArgument[];
+  try {
+    translationArgs = parseIcuArguments(translation, quoting);
+  } catch (error: any) {
+    return [`Broken ICU message syntax: ${error.message}`];
+  }
+
+  const problems: string[] = [];
+  const describe = ({ name, type }: IcuArgument) => (type ? `{${name}, ${type}}` : `{${name}}`);
+  const { missing, extra } = describeDifference(
+    Array.from(new Set(sourceArgs.map(describe))),
+    Array.from(new Set(translationArgs.map(describe)))
+  );
+  if (missing.length > 0) problems.push(`Missing or renamed placeholders: ${missing.join(", ")}`);
+  if (extra.length > 0) problems.push(`Unexpected placeholders: ${extra.join(", ")}`);
+
+  sourceArgs.filter(({ type }) => type && type !== "number" && type !== "date" && type !== "time").forEach((sourceArg) => {
+    const translated = translationArgs.filter(({ name, type }) => name === sourceArg.name && type === sourceArg.type);
+    if (translated.length === 0) return;
+    const translatedSelectors = new Set(translated.flatMap(({ selectors }) => selectors));
+
+    if (sourceArg.type === "select") {
+      const missingSelectors = sourceArg.selectors.filter((selector) => !translatedSelectors.has(selector));
+      const extraSelectors = Array.from(translatedSelectors).filter((selector) => !sourceArg.selectors.includes(selector));
+      if (missingSelectors.length > 0 || extraSelectors.length > 0) {
+        problems.push(`Options of {${sourceArg.name}, select} must stay ${sourceArg.selectors.join(", ")}`);
+      }
+    } else {
+      // Plural categories differ between languages, but "other" and exact matches (=0) must stay
+      const required = sourceArg.selectors.filter((selector) => selector === "other" || selector.startsWith("="));
+      const missingSelectors = required.filter((selector) => !translatedSelectors.has(selector));
+      if (missingSelectors.length > 0) {
+        problems.push(`Missing branches ${missingSelectors.join(", ")} in {${sourceArg.name}, ${sourceArg.type}}`);
+      }
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Compares a translated value with its source and returns a list of problems (empty when valid):
+ * placeholders, ICU arguments and selectors, HTML/JSX tags and the number of line breaks.
+ */
+export const validateTranslation = (source: string, translation: unknown): string[] => {
+  if (typeof translation !== "string") {
+    return [`Translation must be a string, got ${translation === null ? "null" : typeof translation}`];
+  }
+  if (source.trim() !== "" && translation.trim() === "") {
+    return ["Translation is empty"];
+  }
+
+  const problems: string[] = [];
+
+  const placeholders = describeDifference(sortedMatches(source, PLACEHOLDER_REGEX), sortedMatches(translation, PLACEHOLDER_REGEX));
+  if (placeholders.missing.length > 0) problems.push(`Missing or changed placeholders: ${placeholders.missing.join(", ")}`);
+  if (placeholders.extra.length > 0) problems.push(`Unexpected placeholders: ${placeholders.extra.join(", ")}`);
+
+  problems.push(...validateIcu(source, translation));
+
+  const tags = describeDifference(extractTags(source), extractTags(translation));
+  if (tags.missing.length > 0) problems.push(`Missing tags: ${tags.missing.join(", ")}`);
+  if (tags.extra.length > 0) problems.push(`Unexpected tags: ${tags.extra.join(", ")}`);
+
+  const sourceNewlines = source.split("\n").length - 1;
+  const translationNewlines = translation.split("\n").length - 1;
+  if (sourceNewlines !== translationNewlines) {
+    problems.push(`Expected ${sourceNewlines} line breaks, got ${translationNewlines}`);
+  }
+
+  return problems;
+};
+
+// Problems per key, only keys with at least one problem are included
+export const validateTranslations = (
+  sourceChunk: Record<string, string>,
+  translations: Record<string, unknown>
+): Record<string, string[]> => {
+  const problemsByKey: Record<string, string[]> = {};
+  Object.entries(translations).forEach(([key, translation]) => {
+    if (!(key in sourceChunk)) return;
+    const problems = validateTranslation(sourceChunk[key], translation);
+    if (problems.length > 0) {
+      problemsByKey[key] = problems;
+    }
+  });
+  return problemsByKey;
+};
+
+// Instructions appended to the prompt when invalid translations are requested again
+export const formatValidationProblems = (problemsByKey: Record<string, string[]>) => [
+  "Your previous translations of the following keys were invalid. Translate them again and fix these problems:",
+  ...Object.entries(problemsByKey).map(([key, problems]) => `- "${key}": ${problems.join("; ")}`),
+  "Keep all placeholders, ICU arguments and selectors, HTML tags and line breaks exactly as in the source.",
+].join("\n");